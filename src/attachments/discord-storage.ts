@@ -0,0 +1,13 @@
+import type { ThreadAttachment } from "../discord"
+import type StorageInterface from "./storage-interface"
+
+/**
+ * Keep the attachments on the Discord CDN
+ *
+ * note: Discord CDN links expire, the attachments may not be reachable from GitHub after a while
+ */
+export default class DiscordStorage implements StorageInterface {
+	public async store(attachment: ThreadAttachment): Promise<string> {
+		return attachment.url
+	}
+}
@@ -0,0 +1,42 @@
+import fs from "node:fs/promises"
+import path from "node:path"
+import type { ThreadAttachment } from "../discord"
+import type StorageInterface from "./storage-interface"
+
+/**
+ * Download the attachments in a local folder, served by the webhook server
+ */
+export default class LocalStorage implements StorageInterface {
+	private readonly directory: string
+	private readonly publicUrl: string
+
+	/**
+	 * @param directory the folder to download the attachments to
+	 * @param publicUrl the public URL the folder is served at
+	 */
+	public constructor(
+		directory: string,
+		publicUrl: string
+	) {
+		this.directory = directory
+		this.publicUrl = publicUrl.replace(/\/$/, "")
+	}
+
+	public async store(attachment: ThreadAttachment): Promise<string> {
+		// attachment IDs are unique, the name is kept for readability
+		const file = `${attachment.id}-${attachment.name.replace(/[^\w.-]/g, "_")}`
+		const target = path.join(this.directory, file)
+
+		const exists = await fs.access(target).then(() => true, () => false)
+		if (!exists) {
+			const res = await fetch(attachment.url)
+			if (!res.ok) {
+				throw new Error(`Could not download attachment ${attachment.url}: ${res.status} ${res.statusText}`)
+			}
+			await fs.mkdir(this.directory, { recursive: true })
+			await fs.writeFile(target, Buffer.from(await res.arrayBuffer()))
+		}
+
+		return `${this.publicUrl}/${encodeURIComponent(file)}`
+	}
+}
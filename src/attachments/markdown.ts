@@ -0,0 +1,79 @@
+import storage from "../config/attachments"
+import logger from "../config/logger"
+import type { ThreadAttachment, ThreadMessage } from "../discord"
+import { discordToGithub } from "../markdown"
+import { listDiscordIdsByLogin } from "../identity"
+import { filterContent } from "../filters"
+
+const SIZE_UNITS = ["B", "KB", "MB", "GB"]
+
+function formatSize(size: number): string {
+	let unit = 0
+	while (size >= 1024 && unit < SIZE_UNITS.length - 1) {
+		size /= 1024
+		unit++
+	}
+	return `${unit === 0 ? size : size.toFixed(1)} ${SIZE_UNITS[unit]}`
+}
+
+function escapeLabel(label: string): string {
+	return label.replace(/([[\]\\])/g, "\\$1")
+}
+
+/**
+ * Render a text of a message that is not its content (embeds, file names),
+ * it goes through the same filters and mention escaping as the content
+ */
+function renderText(text: string, message: ThreadMessage, linkedLogins: Array<string>): string {
+	return discordToGithub(filterContent(text).content, message.mentions, linkedLogins)
+}
+
+async function renderAttachment(attachment: ThreadAttachment, label: string): Promise<string> {
+	let url = attachment.url
+	try {
+		url = await storage.store(attachment)
+	} catch (error: any) {
+		// the Discord link still works for a while, it is better than nothing
+		logger.warning(`[Attachments] Could not store attachment ${attachment.id}, linking to Discord instead: ${error.message}`)
+	}
+
+	const name = escapeLabel(label)
+	const details = [formatSize(attachment.size), attachment.contentType].filter(Boolean).join(", ")
+	if (attachment.contentType?.startsWith("image/")) {
+		return `![${name}](${url})\n<sub>${name} (${details})</sub>`
+	}
+	return `📎 [${name}](${url}) (${details})`
+}
+
+/**
+ * Render a Discord message as GitHub Markdown, with its attachments, embeds and stickers
+ *
+ * Attachments are made available through the configured storage, and the content filters are applied on the text.
+ */
+export async function renderDiscordContent(message: ThreadMessage): Promise<string> {
+	const linkedLogins = Object.keys(listDiscordIdsByLogin())
+	const parts = [renderText(message.message, message, linkedLogins)]
+
+	for (const attachment of message.attachments) {
+		parts.push(await renderAttachment(attachment, renderText(attachment.name, message, linkedLogins)))
+	}
+
+	// links in the message are already rendered by GitHub, only the other embeds are added
+	for (const embed of message.embeds) {
+		if (embed.url && message.message.includes(embed.url)) {
+			continue
+		}
+		const embedTitle = embed.title && renderText(embed.title, message, linkedLogins)
+		const title = embedTitle && embed.url ? `[${escapeLabel(embedTitle)}](${embed.url})` : embedTitle || embed.url
+		const lines = [title && `**${title}**`, embed.description && renderText(embed.description, message, linkedLogins)].filter(Boolean) as Array<string>
+		if (lines.length > 0) {
+			parts.push(lines.join("\n\n").split("\n").map((it) => `> ${it}`).join("\n"))
+		}
+	}
+
+	for (const sticker of message.stickers) {
+		parts.push(`🏷️ Sticker: [${escapeLabel(renderText(sticker.name, message, linkedLogins))}](${sticker.url})`)
+	}
+
+	return parts.filter((it) => it.trim() !== "").join("\n\n")
+}
@@ -0,0 +1,13 @@
+import type { ThreadAttachment } from "../discord"
+
+/**
+ * Describes where the Discord attachments mirrored on GitHub are hosted.
+ */
+export default interface StorageInterface {
+	/**
+	 * Make an attachment available outside of Discord
+	 *
+	 * @returns the URL to link the attachment with
+	 */
+	store(attachment: ThreadAttachment): Promise<string>
+}
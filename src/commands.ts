@@ -0,0 +1,133 @@
+import { GuildMember, MessageFlags, PermissionFlagsBits, SlashCommandBuilder, type ChatInputCommandInteraction } from "discord.js"
+import config from "./config/config"
+import mappings from "./config/mappings"
+import store from "./config/store"
+import { createLinkCode } from "./identity"
+
+/**
+ * the slash commands registered on the guilds of the mapped forums
+ */
+export const commands = [
+	new SlashCommandBuilder()
+		.setName("account")
+		.setDescription("Manage how your messages are mirrored on GitHub")
+		.addSubcommand((sub) => sub
+			.setName("link")
+			.setDescription("Link your GitHub account, you will be mentioned on GitHub and Discord")
+			.addStringOption((option) => option
+				.setName("login")
+				.setDescription("Your GitHub username")
+				.setRequired(true)
+			)
+		)
+		.addSubcommand((sub) => sub
+			.setName("unlink")
+			.setDescription("Unlink your GitHub account")
+		)
+		.addSubcommand((sub) => sub
+			.setName("opt-out")
+			.setDescription("Stop mirroring your messages on GitHub")
+		)
+		.addSubcommand((sub) => sub
+			.setName("opt-in")
+			.setDescription("Resume mirroring your messages on GitHub")
+		),
+	new SlashCommandBuilder()
+		.setName("sync")
+		.setDescription("Mirroring of this thread (moderators only)")
+		.addSubcommand((sub) => sub
+			.setName("thread")
+			.setDescription("Mirror the missing messages of this thread and its discussion")
+		)
+		.addSubcommand((sub) => sub
+			.setName("status")
+			.setDescription("Show the discussion this thread is mirrored to and the pending writes")
+		)
+		.addSubcommand((sub) => sub
+			.setName("retry")
+			.setDescription("Try again the writes of this thread that failed too many times")
+		),
+	new SlashCommandBuilder()
+		.setName("link")
+		.setDescription("Mirror this thread to an existing discussion (moderators only)")
+		.addIntegerOption((option) => option
+			.setName("discussion")
+			.setDescription("The number of the discussion")
+			.setMinValue(1)
+			.setRequired(true)
+		),
+	new SlashCommandBuilder()
+		.setName("unlink")
+		.setDescription("Stop mirroring this thread to its discussion, until /link is used (moderators only)"),
+	new SlashCommandBuilder()
+		.setName("ignore")
+		.setDescription("Stop or resume mirroring this thread and its discussion (moderators only)")
+		.addBooleanOption((option) => option
+			.setName("ignored")
+			.setDescription("Whether the thread is ignored, true by default")
+		),
+]
+
+/**
+ * the commands only available to the moderators
+ */
+export const MODERATOR_COMMANDS = ["sync", "link", "unlink", "ignore"]
+
+/**
+ * @returns whether the member has one of the moderator roles, or can manage threads when no role is configured
+ */
+export function isModerator(interaction: ChatInputCommandInteraction): boolean {
+	const member = interaction.member
+	if (!(member instanceof GuildMember)) {
+		return false
+	}
+	if (config.moderatorRoles.length === 0) {
+		return member.permissions.has(PermissionFlagsBits.ManageThreads)
+	}
+	return config.moderatorRoles.some((it) => member.roles.cache.has(it))
+}
+
+/**
+ * `/account link`, `/account unlink`, `/account opt-out` and `/account opt-in`
+ */
+export async function handleAccountCommand(interaction: ChatInputCommandInteraction) {
+	const subcommand = interaction.options.getSubcommand()
+	if (subcommand === "opt-out" || subcommand === "opt-in") {
+		store.setUserOptedOut(interaction.user.id, subcommand === "opt-out")
+		await interaction.reply({
+			content: subcommand === "opt-out"
+				? "Your next messages will not be mirrored on GitHub, and the threads you start will stay on Discord. Messages already mirrored are kept."
+				: "Your next messages will be mirrored on GitHub again.",
+			flags: MessageFlags.Ephemeral,
+		})
+		return
+	}
+
+	if (subcommand === "unlink") {
+		const identity = store.getIdentityByDiscord(interaction.user.id)
+		if (identity) {
+			store.unlinkIdentity(interaction.user.id)
+		}
+		await interaction.reply({
+			content: identity ? `Your account is not linked to **${identity.githubLogin}** anymore.` : "Your account is not linked to a GitHub account.",
+			flags: MessageFlags.Ephemeral,
+		})
+		return
+	}
+
+	const login = interaction.options.getString("login", true).replace(/^@/, "")
+	if (!/^[a-zA-Z\d](?:[a-zA-Z\d]|-(?=[a-zA-Z\d])){0,38}$/.test(login)) {
+		await interaction.reply({ content: `**${login}** is not a valid GitHub username.`, flags: MessageFlags.Ephemeral })
+		return
+	}
+
+	const code = createLinkCode(interaction.user.id, login)
+	const repositories = [...new Set(mappings.map((it) => `${it.owner}/${it.repo}`))]
+	await interaction.reply({
+		content: [
+			`To prove you own **${login}**, post a comment containing only \`${code}\` with this account on any discussion of ${repositories.map((it) => `[${it}](<https://github.com/${it}/discussions>)`).join(", ")} in the next 15 minutes.`,
+			"The comment is not mirrored on Discord, you will receive a direct message once your account is linked.",
+		].join("\n\n"),
+		flags: MessageFlags.Ephemeral,
+	})
+}
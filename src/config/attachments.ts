@@ -0,0 +1,10 @@
+import DiscordStorage from "../attachments/discord-storage";
+import LocalStorage from "../attachments/local-storage";
+import type StorageInterface from "../attachments/storage-interface";
+import config from "./config";
+
+const storage: StorageInterface = config.attachments.storage === "local"
+	? new LocalStorage(config.attachments.directory, `${config.attachments.publicUrl.replace(/\/$/, "")}/attachments`)
+	: new DiscordStorage()
+
+export default storage
@@ -0,0 +1,469 @@
+import fs from "node:fs";
+import logger from "./logger";
+
+/**
+ * What to do with the mirror of an item deleted on the other platform
+ * - delete: delete the mirror too
+ * - tombstone: replace the content of the mirror by a deletion notice
+ * - ignore: keep the mirror as is
+ */
+export type DeletionPolicy = "delete" | "tombstone" | "ignore"
+
+/**
+ * Where the Discord attachments mirrored on GitHub are hosted
+ * - discord: keep the Discord CDN links (they expire after a while)
+ * - local: download them and serve them from the webhook server
+ */
+export type AttachmentStorage = "discord" | "local"
+
+/**
+ * What to do with a message matching a content filter
+ * - block: do not mirror the message
+ * - redact: mirror the message with the matches replaced
+ */
+export type FilterAction = "block" | "redact"
+
+export interface ContentFilter {
+	/**
+	 * name of the filter in the logs
+	 */
+	name: string
+	/**
+	 * regular expression matching the content to filter
+	 */
+	pattern: string
+	/**
+	 * flags of the regular expression, `g` is always added
+	 */
+	flags: string
+	action: FilterAction
+	/**
+	 * text replacing the matches of a `redact` filter
+	 */
+	replacement: string
+}
+
+/**
+ * Pairs a Discord forum channel with a GitHub repository discussion category
+ */
+export interface Mapping {
+	forumChannelId: string
+	owner: string
+	repo: string
+	categoryName: string
+}
+
+export interface Config {
+	github: {
+		token: string
+		/**
+		 * secret configured on the GitHub webhook
+		 */
+		webhookSecret: string
+	}
+	discord: {
+		token: string
+		/**
+		 * post the GitHub content through a webhook of the forum, with the name and avatar of its author
+		 */
+		webhooks: boolean
+	}
+	mappings: Array<Mapping>
+	tags: {
+		/**
+		 * GitHub label name => Discord forum tag name, labels not listed use a tag of the same name
+		 */
+		labels: Record<string, string>
+		/**
+		 * tag applied to the threads of answered Q&A discussions
+		 */
+		answered?: string
+		/**
+		 * tag applied to the threads of unanswered Q&A discussions
+		 */
+		unanswered?: string
+	}
+	/**
+	 * reaction the owner of a thread adds on a message to mark it as the answer of the Q&A discussion
+	 */
+	answerEmoji: string
+	/**
+	 * close the discussion when its thread is archived on Discord
+	 *
+	 * disabled by default as Discord also archives inactive threads by itself
+	 */
+	closeOnArchive: boolean
+	reactions: {
+		/**
+		 * mirror the reactions of the messages and comments
+		 */
+		enabled: boolean
+		/**
+		 * minutes between two checks of the GitHub reactions of the active threads, 0 to disable
+		 *
+		 * GitHub does not send webhook events for reactions
+		 */
+		pollInterval: number
+	}
+	/**
+	 * IDs of the Discord roles allowed to use the moderator commands
+	 *
+	 * when empty, the members allowed to manage threads can use them
+	 */
+	moderatorRoles: Array<string>
+	exclusions: {
+		/**
+		 * forum tag of the threads that are not mirrored to GitHub
+		 */
+		discordOnlyTag?: string
+		/**
+		 * label of the discussions that are not mirrored to Discord
+		 */
+		githubOnlyLabel?: string
+	}
+	/**
+	 * filters applied on the content mirrored in both directions
+	 */
+	filters: Array<ContentFilter>
+	attachments: {
+		storage: AttachmentStorage
+		/**
+		 * folder the attachments are downloaded to with the `local` storage
+		 */
+		directory: string
+		/**
+		 * public URL of the webhook server, required by the `local` storage
+		 */
+		publicUrl: string
+	}
+	deletion: {
+		/**
+		 * what to do on Discord when an item is deleted on GitHub
+		 */
+		onGithubDelete: DeletionPolicy
+		/**
+		 * what to do on GitHub when an item is deleted on Discord
+		 */
+		onDiscordDelete: DeletionPolicy
+	}
+	queue: {
+		/**
+		 * attempts of a job before it is given up
+		 */
+		maxAttempts: number
+		/**
+		 * seconds before the first retry of a failed job, doubled on each attempt
+		 */
+		retryDelay: number
+		/**
+		 * conversations synced at the same time, the jobs of a conversation are always run one at a time
+		 */
+		concurrency: number
+	}
+	/**
+	 * file keeping track of what was mirrored where
+	 */
+	storePath: string
+	/**
+	 * port of the webhook server
+	 */
+	port: number
+	/**
+	 * read data but skip write operations
+	 */
+	dryRun: boolean
+}
+
+const DELETION_POLICIES: ReadonlyArray<DeletionPolicy> = ["delete", "tombstone", "ignore"]
+const ATTACHMENT_STORAGES: ReadonlyArray<AttachmentStorage> = ["discord", "local"]
+const FILTER_ACTIONS: ReadonlyArray<FilterAction> = ["block", "redact"]
+
+/**
+ * Checks raw values while keeping track of every issue so they can all be reported at once
+ */
+class Validator {
+	public readonly errors: Array<string> = []
+
+	public string(path: string, value: unknown, fallback?: string): string {
+		if (value === undefined || value === "") {
+			if (fallback === undefined) {
+				this.errors.push(`${path} is required`)
+			}
+			return fallback ?? ""
+		}
+		if (typeof value !== "string") {
+			this.errors.push(`${path} must be a string, got ${JSON.stringify(value)}`)
+			return ""
+		}
+		return value
+	}
+
+	public number(path: string, value: unknown, fallback: number): number {
+		if (value === undefined || value === "") {
+			return fallback
+		}
+		const parsed = typeof value === "string" ? Number(value) : value
+		if (typeof parsed !== "number" || !Number.isInteger(parsed) || parsed < 0) {
+			this.errors.push(`${path} must be a positive integer, got ${JSON.stringify(value)}`)
+			return fallback
+		}
+		return parsed
+	}
+
+	public boolean(path: string, value: unknown, fallback: boolean): boolean {
+		if (value === undefined || value === "") {
+			return fallback
+		}
+		if (value === true || value === "true") {
+			return true
+		}
+		if (value === false || value === "false") {
+			return false
+		}
+		this.errors.push(`${path} must be true or false, got ${JSON.stringify(value)}`)
+		return fallback
+	}
+
+	public record(path: string, value: unknown): Record<string, string> {
+		if (value === undefined || value === "") {
+			return {}
+		}
+		const parsed = typeof value === "string" ? this.json(path, value) : value
+		if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed) ||
+			!Object.values(parsed).every((it) => typeof it === "string")) {
+			this.errors.push(`${path} must be an object of strings, got ${JSON.stringify(value)}`)
+			return {}
+		}
+		return parsed as Record<string, string>
+	}
+
+	/**
+	 * a list of strings, given as an array or as a comma separated string
+	 */
+	public list(path: string, value: unknown): Array<string> {
+		if (value === undefined || value === "") {
+			return []
+		}
+		const parsed = typeof value === "string" ? value.split(",").map((it) => it.trim()).filter(Boolean) : value
+		if (!Array.isArray(parsed) || !parsed.every((it) => typeof it === "string")) {
+			this.errors.push(`${path} must be a list of strings, got ${JSON.stringify(value)}`)
+			return []
+		}
+		return parsed
+	}
+
+	public json(path: string, value: string): unknown {
+		try {
+			return JSON.parse(value)
+		} catch (error: any) {
+			this.errors.push(`${path} is not valid JSON: ${error.message}`)
+			return undefined
+		}
+	}
+
+	public oneOf<T extends string>(path: string, value: unknown, values: ReadonlyArray<T>, fallback: T): T {
+		if (value === undefined || value === "") {
+			return fallback
+		}
+		if (!values.includes(value as T)) {
+			this.errors.push(`${path} must be one of ${values.map((it) => `"${it}"`).join(", ")}, got ${JSON.stringify(value)}`)
+			return fallback
+		}
+		return value as T
+	}
+}
+
+function fail(message: string): never {
+	logger.critical(`[Config] ${message}`)
+	process.exit(1)
+}
+
+function loadFile(): Record<string, any> {
+	const file = process.env.CONFIG_PATH || "./config.json"
+	if (!fs.existsSync(file)) {
+		if (process.env.CONFIG_PATH) {
+			fail(`Configuration file ${file} does not exist`)
+		}
+		return {}
+	}
+	try {
+		return JSON.parse(fs.readFileSync(file, "utf-8"))
+	} catch (error: any) {
+		fail(`Configuration file ${file} is not valid JSON: ${error.message}`)
+	}
+}
+
+/**
+ * Mappings from the environment, when set they replace the ones from the file
+ */
+function loadEnvMappings(): unknown {
+	if (process.env.MAPPINGS) {
+		try {
+			return JSON.parse(process.env.MAPPINGS)
+		} catch (error: any) {
+			fail(`MAPPINGS is not valid JSON: ${error.message}`)
+		}
+	}
+
+	// single pair configuration
+	if (process.env.FORUM_CHANNEL_ID) {
+		return [{ forumChannelId: process.env.FORUM_CHANNEL_ID, categoryName: process.env.CATEGORY_NAME || "General" }]
+	}
+
+	return undefined
+}
+
+function validateMappings(validator: Validator, value: unknown, owner: string, repo: string): Array<Mapping> {
+	if (!Array.isArray(value) || value.length === 0) {
+		validator.errors.push("mappings must be a non-empty list of { forumChannelId, owner?, repo?, categoryName }")
+		return []
+	}
+
+	const mappings = value.map((it: any, idx): Mapping => {
+		const path = `mappings[${idx}]`
+		const mapping = {
+			forumChannelId: validator.string(`${path}.forumChannelId`, it?.forumChannelId),
+			// fallback on the global repository
+			owner: validator.string(`${path}.owner (or github.owner)`, it?.owner ?? owner),
+			repo: validator.string(`${path}.repo (or github.repo)`, it?.repo ?? repo),
+			categoryName: validator.string(`${path}.categoryName`, it?.categoryName),
+		}
+		if (mapping.forumChannelId && !/^\d+$/.test(mapping.forumChannelId)) {
+			validator.errors.push(`${path}.forumChannelId must be a Discord channel ID, got "${mapping.forumChannelId}"`)
+		}
+		return mapping
+	})
+
+	const forums = mappings.map((it) => it.forumChannelId)
+	for (const [idx, forum] of forums.entries()) {
+		if (forums.indexOf(forum) !== idx) {
+			validator.errors.push(`mappings[${idx}].forumChannelId ${forum} is already used by another mapping`)
+		}
+	}
+
+	return mappings
+}
+
+function validateFilters(validator: Validator, value: unknown): Array<ContentFilter> {
+	if (value === undefined || value === "") {
+		return []
+	}
+	const parsed = typeof value === "string" ? validator.json("filters (CONTENT_FILTERS)", value) : value
+	if (!Array.isArray(parsed)) {
+		validator.errors.push("filters must be a list of { pattern, action?, flags?, replacement?, name? }")
+		return []
+	}
+
+	return parsed.map((it: any, idx): ContentFilter => {
+		const path = `filters[${idx}]`
+		const filter = {
+			name: validator.string(`${path}.name`, it?.name, path),
+			pattern: validator.string(`${path}.pattern`, it?.pattern),
+			flags: validator.string(`${path}.flags`, it?.flags, "i"),
+			action: validator.oneOf(`${path}.action`, it?.action, FILTER_ACTIONS, "redact"),
+			replacement: validator.string(`${path}.replacement`, it?.replacement, "[redacted]"),
+		}
+		try {
+			new RegExp(filter.pattern, filter.flags)
+		} catch (error: any) {
+			validator.errors.push(`${path}.pattern is not a valid regular expression: ${error.message}`)
+		}
+		return filter
+	})
+}
+
+function loadConfig(): Config {
+	const file = loadFile()
+	const env = process.env
+	const validator = new Validator()
+
+	// environment variables take precedence over the file
+	const owner = validator.string("github.owner", env.GITHUB_OWNER ?? file.github?.owner, "")
+	const repo = validator.string("github.repo", env.GITHUB_REPO ?? file.github?.repo, "")
+	const config: Config = {
+		github: {
+			token: validator.string("github.token (GITHUB_TOKEN)", env.GITHUB_TOKEN ?? file.github?.token),
+			webhookSecret: validator.string("github.webhookSecret (GITHUB_WEBHOOK_SECRET)", env.GITHUB_WEBHOOK_SECRET ?? file.github?.webhookSecret),
+		},
+		discord: {
+			token: validator.string("discord.token (DISCORD_TOKEN)", env.DISCORD_TOKEN ?? file.discord?.token),
+			webhooks: validator.boolean("discord.webhooks (DISCORD_WEBHOOKS)", env.DISCORD_WEBHOOKS ?? file.discord?.webhooks, false),
+		},
+		mappings: validateMappings(validator, loadEnvMappings() ?? file.mappings, owner, repo),
+		tags: {
+			labels: validator.record("tags.labels (LABEL_TAGS)", env.LABEL_TAGS ?? file.tags?.labels),
+			answered: validator.string("tags.answered (ANSWERED_TAG)", env.ANSWERED_TAG ?? file.tags?.answered, "") || undefined,
+			unanswered: validator.string("tags.unanswered (UNANSWERED_TAG)", env.UNANSWERED_TAG ?? file.tags?.unanswered, "") || undefined,
+		},
+		answerEmoji: validator.string("answerEmoji (ANSWER_EMOJI)", env.ANSWER_EMOJI ?? file.answerEmoji, "✅"),
+		closeOnArchive: validator.boolean("closeOnArchive (CLOSE_ON_ARCHIVE)", env.CLOSE_ON_ARCHIVE ?? file.closeOnArchive, false),
+		reactions: {
+			enabled: validator.boolean("reactions.enabled (SYNC_REACTIONS)", env.SYNC_REACTIONS ?? file.reactions?.enabled, true),
+			pollInterval: validator.number("reactions.pollInterval (REACTIONS_POLL_INTERVAL)", env.REACTIONS_POLL_INTERVAL ?? file.reactions?.pollInterval, 15),
+		},
+		moderatorRoles: validator.list("moderatorRoles (MODERATOR_ROLES)", env.MODERATOR_ROLES ?? file.moderatorRoles),
+		exclusions: {
+			discordOnlyTag: validator.string("exclusions.discordOnlyTag (DISCORD_ONLY_TAG)", env.DISCORD_ONLY_TAG ?? file.exclusions?.discordOnlyTag, "") || undefined,
+			githubOnlyLabel: validator.string("exclusions.githubOnlyLabel (GITHUB_ONLY_LABEL)", env.GITHUB_ONLY_LABEL ?? file.exclusions?.githubOnlyLabel, "") || undefined,
+		},
+		filters: validateFilters(validator, env.CONTENT_FILTERS ?? file.filters),
+		attachments: {
+			storage: validator.oneOf("attachments.storage (ATTACHMENTS_STORAGE)", env.ATTACHMENTS_STORAGE ?? file.attachments?.storage, ATTACHMENT_STORAGES, "discord"),
+			directory: validator.string("attachments.directory (ATTACHMENTS_DIRECTORY)", env.ATTACHMENTS_DIRECTORY ?? file.attachments?.directory, "./data/attachments"),
+			publicUrl: validator.string("attachments.publicUrl (ATTACHMENTS_PUBLIC_URL)", env.ATTACHMENTS_PUBLIC_URL ?? file.attachments?.publicUrl, ""),
+		},
+		deletion: {
+			onGithubDelete: validator.oneOf("deletion.onGithubDelete (ON_GITHUB_DELETE)", env.ON_GITHUB_DELETE ?? file.deletion?.onGithubDelete, DELETION_POLICIES, "tombstone"),
+			onDiscordDelete: validator.oneOf("deletion.onDiscordDelete (ON_DISCORD_DELETE)", env.ON_DISCORD_DELETE ?? file.deletion?.onDiscordDelete, DELETION_POLICIES, "tombstone"),
+		},
+		queue: {
+			maxAttempts: validator.number("queue.maxAttempts (QUEUE_MAX_ATTEMPTS)", env.QUEUE_MAX_ATTEMPTS ?? file.queue?.maxAttempts, 5),
+			retryDelay: validator.number("queue.retryDelay (QUEUE_RETRY_DELAY)", env.QUEUE_RETRY_DELAY ?? file.queue?.retryDelay, 30),
+			concurrency: validator.number("queue.concurrency (QUEUE_CONCURRENCY)", env.QUEUE_CONCURRENCY ?? file.queue?.concurrency, 4),
+		},
+		storePath: validator.string("storePath (STORE_PATH)", env.STORE_PATH ?? file.storePath, "./data/store.json"),
+		port: validator.number("port (PORT)", env.PORT ?? file.port, 3000),
+		dryRun: validator.boolean("dryRun (DRY_RUN)", env.DRY_RUN ?? file.dryRun, false),
+	}
+
+	if (config.attachments.storage === "local" && !config.attachments.publicUrl) {
+		validator.errors.push('attachments.publicUrl (ATTACHMENTS_PUBLIC_URL) is required by the "local" attachments storage')
+	}
+
+	if (config.queue.maxAttempts < 1) {
+		validator.errors.push("queue.maxAttempts (QUEUE_MAX_ATTEMPTS) must be at least 1")
+	}
+
+	if (config.queue.concurrency < 1) {
+		validator.errors.push("queue.concurrency (QUEUE_CONCURRENCY) must be at least 1")
+	}
+
+	if (validator.errors.length > 0) {
+		fail(`Invalid configuration:\n- ${validator.errors.join("\n- ")}`)
+	}
+
+	return config
+}
+
+function mask(secret: string): string {
+	return secret.length > 8 ? `${secret.slice(0, 4)}****` : "****"
+}
+
+/**
+ * the configuration with its secrets masked, safe to be printed
+ */
+export function describeConfig(config: Config): Config {
+	return {
+		...config,
+		github: {
+			token: mask(config.github.token),
+			webhookSecret: mask(config.github.webhookSecret),
+		},
+		discord: {
+			...config.discord,
+			token: mask(config.discord.token),
+		},
+	}
+}
+
+export default loadConfig()
@@ -0,0 +1,27 @@
+import config, { type Mapping } from "./config";
+
+export type { Mapping }
+
+const mappings = config.mappings
+
+export function getMappingByForum(forumChannelId: string | null): Mapping | undefined {
+	return mappings.find((it) => it.forumChannelId === forumChannelId)
+}
+
+/**
+ * @param repository the repository full name (`owner/repo`)
+ * @param categoryName the discussion category name
+ */
+export function getMappingByCategory(repository: string, categoryName: string): Mapping | undefined {
+	return getMappingsByRepository(repository).find((it) => it.categoryName === categoryName)
+}
+
+/**
+ * @param repository the repository full name (`owner/repo`)
+ */
+export function getMappingsByRepository(repository: string): Array<Mapping> {
+	// GitHub names are case insensitive
+	return mappings.filter((it) => `${it.owner}/${it.repo}`.toLowerCase() === repository.toLowerCase())
+}
+
+export default mappings
@@ -0,0 +1,4 @@
+import JsonStore from "../store/json-store";
+import config from "./config";
+
+export default new JsonStore(config.storePath)
@@ -1,35 +1,119 @@
 import {
 	Client,
+	Collection,
+	DiscordAPIError,
 	ForumChannel,
 	GatewayIntentBits,
-	type AnyThreadChannel
+	Message,
+	MessageReferenceType,
+	Partials,
+	RESTJSONErrorCodes,
+	Webhook,
+	type AnyThreadChannel,
+	type APIEmbed,
+	type ApplicationCommandDataResolvable,
+	type MessageMentionOptions
 } from "discord.js"
 import logger from "./config/logger"
+import store from "./config/store"
+import config from "./config/config"
+import type { Mapping } from "./config/mappings"
 import type { GithubComment, GithubDiscussion } from "./github"
+import type { ForumTag } from "./tags"
+import type { DiscordReaction } from "./reactions"
+import { githubToDiscord, splitMarkdown, type DiscordMentions } from "./markdown"
+import type { MessageLink } from "./store/store-interface"
+import { listDiscordIdsByLogin } from "./identity"
+import { filterContent } from "./filters"
+
+/**
+ * Discord messages are limited to 2000 characters
+ */
+const MAX_MESSAGE_LENGTH = 2000
+
+/**
+ * mirrored content is written by someone else, it never notifies anyone unless explicitly allowed
+ */
+const NO_MENTIONS: MessageMentionOptions = { parse: [], repliedUser: false }
+
+interface DiscordContent {
+	content: string
+	allowedMentions: MessageMentionOptions
+	embeds?: Array<APIEmbed>
+	reply?: {
+		messageReference: string
+		failIfNotExists: boolean
+	}
+}
+
+type GithubAuthor = GithubDiscussion["author"]
+
+/**
+ * the GitHub author a content is posted as through the webhook of the forum, instead of the bot
+ */
+interface WebhookSender {
+	webhook: Webhook
+	username: string
+	avatarURL: string
+}
+
+export interface ThreadAttachment {
+	id: string
+	name: string
+	url: string
+	/**
+	 * size in bytes
+	 */
+	size: number
+	contentType: string | null
+}
+
+export interface ThreadEmbed {
+	title: string | null
+	description: string | null
+	url: string | null
+}
+
+export interface ThreadSticker {
+	name: string
+	url: string
+}
 
 export interface ThreadMessage {
 	id: string
 	message: string
 	user: string
+	userId: string
+	/**
+	 * whether the message was sent by the bot, see `isMirrored`
+	 */
 	isAuthor: boolean
-	fromGithub: boolean
+	/**
+	 * the message this one replies to, if any
+	 */
+	replyToId?: string
+	createdAt: Date
+	attachments: Array<ThreadAttachment>
+	embeds: Array<ThreadEmbed>
+	stickers: Array<ThreadSticker>
+	mentions: DiscordMentions
+	/**
+	 * the unicode emoji reactions, custom emojis cannot be mirrored
+	 */
+	reactions: Array<DiscordReaction>
 }
 
-const FORUM_CHANNEL_ID = process.env.FORUM_CHANNEL_ID || "1375527112521552003"
-const GITHUB_REPO = process.env.GITHUB_REPO || ""
-const GITHUB_OWNER = process.env.GITHUB_OWNER || ""
 
-const DISCORD_TOKEN = process.env.DISCORD_TOKEN
-if (!DISCORD_TOKEN) {
-	logger.critical("[Discord] Error: DISCORD_TOKEN is not set in environment variables")
-	process.exit(1)
-}
+const DISCORD_TOKEN = config.discord.token
 
 // NOTE: MessageContent is a privileged intent that must be enabled in the Discord Developer Portal
 // Go to https://discord.com/developers/applications > Your Bot > Bot > Privileged Gateway Intents
 // Enable "MESSAGE CONTENT INTENT"
 export const discord = new Client({
-	intents: [GatewayIntentBits.Guilds, GatewayIntentBits.GuildMessages, GatewayIntentBits.MessageContent],
+	intents: [GatewayIntentBits.Guilds, GatewayIntentBits.GuildMessages, GatewayIntentBits.MessageContent, GatewayIntentBits.GuildMessageReactions],
+	// receive edits and reactions of messages sent before the bot started
+	partials: [Partials.Message, Partials.Reaction, Partials.User],
+	allowedMentions: NO_MENTIONS,
 	rest: {
 		retries: 3,
 	},
@@ -43,65 +127,466 @@ export async function destroyDiscord() {
 	await discord.destroy()
 }
 
-export async function listDiscordThreads() {
-	const forum = (await discord.channels.fetch(FORUM_CHANNEL_ID)) as ForumChannel
+/**
+ * Register the slash commands on the guilds of the mapped forums, guild commands are available right away
+ */
+export async function registerDiscordCommands(mappings: Array<Mapping>, commands: Array<ApplicationCommandDataResolvable>) {
+	const guilds = new Set<string>()
+	for (const mapping of mappings) {
+		const forum = (await discord.channels.fetch(mapping.forumChannelId)) as ForumChannel
+		if (guilds.has(forum.guildId)) {
+			continue
+		}
+		guilds.add(forum.guildId)
+		logger.info(`[Discord] Registering commands on guild ${forum.guildId}`)
+		await forum.guild.commands.set(commands)
+	}
+}
+
+/**
+ * Send a direct message to a user, users may have disabled them
+ */
+export async function notifyDiscordUser(userId: string, content: string) {
+	try {
+		await discord.users.send(userId, content)
+	} catch (error: any) {
+		logger.warning(`[Discord] Could not send a direct message to user ${userId}: ${error.message}`)
+	}
+}
+
+export async function listForumTags(mapping: Mapping): Promise<Array<ForumTag>> {
+	const forum = (await discord.channels.fetch(mapping.forumChannelId)) as ForumChannel
+	return forum.availableTags
+}
+
+export async function setDiscordThreadTags(thread: AnyThreadChannel, tags: Array<string>) {
+	logger.info(`[Discord] Setting tags of Discord thread ${thread.id}: ${tags.join(", ")}`)
+	await thread.setAppliedTags(tags)
+}
+
+export async function listDiscordThreads(mapping: Mapping) {
+	const forum = (await discord.channels.fetch(mapping.forumChannelId)) as ForumChannel
 	return (await forum.threads.fetch()).threads
 }
 
 
-export async function listDiscordMessages(thread: AnyThreadChannel): Promise<Array<ThreadMessage>> {
-	return (await thread.messages.fetch())
-		.map((message) => ({
-			id: message.id,
-			message: message.content,
-			user: message.author.username,
-			isAuthor: message.author.id === discord.user!.id,
-			fromGithub: message.content.match(/^🔄 \\*\\*.*\\*\\* on GitHub wrote:\\n/) !== null,
-		}))
-		.toReversed()
-		.filter((_, idx) => idx > 0)
+/**
+ * Fetch a thread from its ID
+ *
+ * @returns the thread or undefined if it does not exist anymore
+ */
+export async function getDiscordThread(id: string): Promise<AnyThreadChannel | undefined> {
+	try {
+		const channel = await discord.channels.fetch(id)
+		return channel?.isThread() ? channel : undefined
+	} catch (error: any) {
+		// deleted threads are reported as an `Unknown Channel` error, the other errors must not be taken for a deletion
+		if (!isUnknownError(error, RESTJSONErrorCodes.UnknownChannel)) {
+			throw error
+		}
+		logger.warning(`[Discord] Could not fetch thread ${id}: ${error.message}`)
+		return undefined
+	}
+}
+
+/**
+ * @returns the message or undefined if it does not exist anymore
+ */
+export async function getDiscordMessage(thread: AnyThreadChannel, id: string): Promise<Message | undefined> {
+	try {
+		return await thread.messages.fetch(id)
+	} catch (error: any) {
+		if (!isUnknownError(error, RESTJSONErrorCodes.UnknownMessage)) {
+			throw error
+		}
+		logger.warning(`[Discord] Could not fetch message ${id} of thread ${thread.id}: ${error.message}`)
+		return undefined
+	}
+}
+
+function isUnknownError(error: unknown, code: RESTJSONErrorCodes): boolean {
+	return error instanceof DiscordAPIError && error.code === code
 }
 
+export function toThreadMessage(message: Message): ThreadMessage {
+	return {
+		id: message.id,
+		message: message.content,
+		user: message.author.username,
+		userId: message.author.id,
+		// messages posted through the webhooks created by the bot are attached to its application
+		isAuthor: message.author.id === discord.user!.id || (message.webhookId !== null && message.applicationId === discord.application!.id),
+		// forwarded messages also have a reference, but they are not replies
+		replyToId: message.reference?.type === MessageReferenceType.Default && message.reference.channelId === message.channelId ? message.reference.messageId : undefined,
+		createdAt: message.createdAt,
+		attachments: message.attachments.map((it) => ({
+			id: it.id,
+			name: it.name,
+			url: it.url,
+			size: it.size,
+			contentType: it.contentType,
+		})),
+		embeds: message.embeds.map((it) => ({
+			title: it.title,
+			description: it.description,
+			url: it.url,
+		})),
+		stickers: message.stickers.map((it) => ({
+			name: it.name,
+			url: it.url,
+		})),
+		mentions: {
+			guildId: message.guildId,
+			users: Object.fromEntries(message.mentions.users.map((it) => [it.id, message.mentions.members?.get(it.id)?.displayName ?? it.displayName])),
+			channels: Object.fromEntries(message.mentions.channels.map((it) => [it.id, "name" in it && it.name ? it.name : it.id])),
+			roles: Object.fromEntries(message.mentions.roles.map((it) => [it.id, it.name])),
+			logins: Object.fromEntries(message.mentions.users
+				.map((it) => [it.id, store.getIdentityByDiscord(it.id)?.githubLogin])
+				.filter(([, login]) => login)),
+		},
+		reactions: message.reactions.cache
+			.filter((it) => !it.emoji.id && it.emoji.name)
+			.map((it) => ({ emoji: it.emoji.name!, count: it.count, me: it.me })),
+	}
+}
 
-function makeDiscordMessage(author: string, number: number, body: string) {
-	// Handle Discord message length limit (2000 chars)
-	const messagePrefix = `💬 **${author}** on [GitHub](<https://github.com/${GITHUB_OWNER}/${GITHUB_REPO}/discussions/${number}>) wrote:\n`
-	const maxContentLength = 1900 - messagePrefix.length
+export async function listDiscordMessages(thread: AnyThreadChannel): Promise<Array<ThreadMessage>> {
+	const messages: Array<Message> = []
+	let before: string | undefined = undefined
+	while (true) {
+		const page: Collection<string, Message> = await thread.messages.fetch({ limit: 100, before })
+		messages.push(...page.values())
+		if (page.size < 100) {
+			break
+		}
+		before = page.lastKey()
+	}
 
-	// Process content to handle image links correctly
-	let processedBody = body
+	return messages
+		// the starter message of a forum post shares the thread ID and is mirrored as the discussion body
+		.filter((message) => message.id !== thread.id)
+		.map(toThreadMessage)
+		.toSorted((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+}
 
-	// Convert GitHub image syntax to Discord-friendly format
-	// Discord will automatically embed images when their URLs are posted
-	// ![alt text](https://url.to/image.png) -> https://url.to/image.png
-	processedBody = processedBody.replace(/!\[(.*?)\]\((https?:\/\/[^\s)]+)\)/g, "$2")
 
-	// Process GitHub user-attachments and HTML image tags for Discord
-	processedBody = (processedBody)
+/**
+ * the webhook of each forum, created on first use
+ */
+const webhooks = new Map<string, Webhook>()
 
-	return `${messagePrefix}${processedBody.length > maxContentLength
-		? processedBody.substring(0, maxContentLength) + "\n(continued...)"
-		: processedBody
-		}`
+/**
+ * @returns the webhook the bot posts the GitHub content through in the forum
+ */
+async function getWebhook(forumId: string): Promise<Webhook> {
+	const cached = webhooks.get(forumId)
+	if (cached) {
+		return cached
+	}
+	const forum = (await discord.channels.fetch(forumId)) as ForumChannel
+	// the webhook created by a previous run is reused
+	const webhook = (await forum.fetchWebhooks()).find((it) => it.owner?.id === discord.user!.id && it.token)
+		?? await forum.createWebhook({ name: "GitHub", reason: "Mirror the GitHub discussions" })
+	webhooks.set(forumId, webhook)
+	return webhook
 }
 
+/**
+ * @param viaWebhook whether the content is posted as its author, by default when `discord.webhooks` is enabled
+ * @returns the webhook sender posting as the GitHub author, or undefined to post as the bot
+ */
+async function makeSender(forumId: string, author: GithubAuthor, viaWebhook = config.discord.webhooks): Promise<WebhookSender | undefined> {
+	if (!viaWebhook) {
+		return undefined
+	}
+	return {
+		webhook: await getWebhook(forumId),
+		// Discord rejects the webhook names containing "discord" or "clyde"
+		username: author.login.replace(/discord|clyde/gi, (it) => `${it[0]}\u200B${it.slice(1)}`),
+		avatarURL: author.avatarUrl,
+	}
+}
 
-export async function createThread(author: string, number: number, title: string, body: string) {
-	const forum = (await discord.channels.fetch(FORUM_CHANNEL_ID)) as ForumChannel
+/**
+ * Long contents are split in several messages, only the first one has the attribution header
+ *
+ * Only the users who linked their GitHub account and are mentioned on GitHub are notified.
+ *
+ * @param url the URL of the discussion or comment, the comment anchor is used to find back the comment during reconciliation
+ * @param sender when posted as the author, the header is replaced by an embed linking to GitHub
+ * @param replyTo the message the content replies to, webhooks cannot reply so the embed links to it instead
+ */
+function makeDiscordMessages(author: GithubAuthor, url: string, body: string, sender?: WebhookSender, replyTo?: { id: string, url: string }): Array<DiscordContent> {
+	const messagePrefix = sender ? "" : `💬 **${author.login}** on [GitHub](<${url}>) wrote:\n`
 
-	logger.info(`[Discord] Creating thread on Discord forum ${forum.id}: ${title}`)
-	const thread = await forum.threads.create({
-		name: title,
-		message: {
-			content: makeDiscordMessage(author, number, body),
+	// issue references are relative to the repository of the discussion
+	const repository = /^https:\/\/github\.com\/([^/]+\/[^/]+)\//.exec(url)?.[1]
+	const discordIds = listDiscordIdsByLogin()
+	const processedBody = githubToDiscord(filterContent(body).content, repository, discordIds)
+
+	// every part is kept short enough to receive the header
+	const [first, ...others] = splitMarkdown(processedBody, MAX_MESSAGE_LENGTH - messagePrefix.length)
+	return [`${messagePrefix}${first}`, ...others].map((content, idx) => ({
+		content,
+		allowedMentions: {
+			...NO_MENTIONS,
+			users: [...new Set(Object.values(discordIds))].filter((id) => content.includes(`<@${id}>`)),
 		},
-	})
+		embeds: sender && idx === 0 ? [{ title: "View on GitHub", url, description: replyTo && `↪️ Reply to ${replyTo.url}` }] : undefined,
+		reply: !sender && idx === 0 && replyTo ? { messageReference: replyTo.id, failIfNotExists: false } : undefined,
+	}))
+}
+
+/**
+ * Send a message in a thread, as the bot or through the webhook of the forum
+ */
+async function sendMessage(thread: AnyThreadChannel, content: DiscordContent, sender?: WebhookSender): Promise<Message> {
+	if (!sender) {
+		return thread.send(content)
+	}
+	return sender.webhook.send({ ...content, threadId: thread.id, username: sender.username, avatarURL: sender.avatarURL })
+}
+
+/**
+ * Replace the content of a group of messages, messages are sent or deleted when the number of parts changed
+ *
+ * @param messageIds the IDs of the messages holding the previous content
+ * @param contents the new parts of the content
+ * @param sender the webhook sender when the messages were posted through the webhook, it is the only one able to edit them
+ * @returns the IDs of the messages holding the new content
+ */
+async function editMessages(thread: AnyThreadChannel, messageIds: Array<string>, contents: Array<DiscordContent>, sender?: WebhookSender): Promise<Array<string>> {
+	const ids: Array<string> = []
+	for (const [idx, content] of contents.entries()) {
+		const id = messageIds[idx]
+		// the embed linking to GitHub and the replied message never change, they are kept as is
+		const { embeds, reply, ...edit } = content
+		if (id && sender) {
+			await sender.webhook.editMessage(id, { ...edit, threadId: thread.id })
+			ids.push(id)
+		} else if (id) {
+			await thread.messages.edit(id, edit)
+			ids.push(id)
+		} else {
+			ids.push((await sendMessage(thread, content, sender)).id)
+		}
+	}
+	for (const id of messageIds.slice(contents.length)) {
+		await thread.messages.delete(id)
+	}
+	return ids
+}
+
+/**
+ * @param appliedTags the IDs of the forum tags to apply on the thread
+ */
+export async function createThread(mapping: Mapping, discussion: GithubDiscussion, appliedTags: Array<string> = []) {
+	const forum = (await discord.channels.fetch(mapping.forumChannelId)) as ForumChannel
+
+	logger.info(`[Discord] Creating thread on Discord forum ${forum.id}: ${discussion.title}`)
+	const sender = await makeSender(forum.id, discussion.author)
+	const [message, ...others] = makeDiscordMessages(discussion.author, discussion.url, discussion.body, sender)
+	let thread: AnyThreadChannel
+	if (sender) {
+		// a webhook message with a thread name starts a new post in the forum
+		const starter = await sender.webhook.send({
+			...message!,
+			threadName: makeThreadName(discussion.title),
+			appliedTags,
+			username: sender.username,
+			avatarURL: sender.avatarURL,
+		})
+		thread = (await forum.threads.fetch(starter.channelId))!
+	} else {
+		thread = await forum.threads.create({
+			name: makeThreadName(discussion.title),
+			appliedTags,
+			message: message!,
+		})
+	}
+
+	// the rest of the body follows the starter message
+	const chunkIds: Array<string> = []
+	for (const other of others) {
+		chunkIds.push((await sendMessage(thread, other, sender)).id)
+	}
+
+	store.linkThread({ threadId: thread.id, discussionId: discussion.id, discussionNumber: discussion.number, origin: "github", chunkIds })
 
 	return thread
 }
 
 
-export async function pushDiscordMessage(thread: AnyThreadChannel, comment: GithubComment, discussion: GithubDiscussion) {
+/**
+ * @returns the first message the comment was mirrored to
+ */
+export async function pushDiscordMessage(thread: AnyThreadChannel, comment: GithubComment) {
 	logger.info(`[Discord] Sending message to Discord thread ${thread.id}: ${comment.body}`)
-	await thread.send(makeDiscordMessage(comment.author.login, discussion.number, comment.body))
+	const sender = await makeSender(thread.parentId!, comment.author)
+	// threaded replies on GitHub reply to the message mirroring the comment they reply to
+	const replyToId = comment.replyTo ? store.getMessageLinkByComment(comment.replyTo.id)?.messageId : undefined
+	const replyTo = replyToId ? { id: replyToId, url: `https://discord.com/channels/${thread.guild.id}/${thread.id}/${replyToId}` } : undefined
+	const messages: Array<Message> = []
+	for (const content of makeDiscordMessages(comment.author, comment.url, comment.body, sender, replyTo)) {
+		messages.push(await sendMessage(thread, content, sender))
+	}
+	const [message, ...chunks] = messages
+	store.linkMessage({ messageId: message!.id, commentId: comment.id, threadId: thread.id, origin: "github", chunkIds: chunks.map((it) => it.id) })
+
+	return message!
+}
+
+export async function renameDiscordThread(thread: AnyThreadChannel, title: string) {
+	logger.info(`[Discord] Renaming Discord thread ${thread.id}: ${title}`)
+	await thread.setName(makeThreadName(title))
+}
+
+/**
+ * Discord thread names are limited to 100 characters
+ */
+export function makeThreadName(title: string) {
+	return title.length > 100 ? `${title.substring(0, 99)}…` : title
+}
+
+/**
+ * Replace the content of a message mirrored from GitHub
+ */
+export async function updateDiscordMessage(thread: AnyThreadChannel, link: MessageLink, comment: GithubComment) {
+	logger.info(`[Discord] Updating message ${link.messageId} in Discord thread ${thread.id}: ${comment.body}`)
+	// the message keeps the way it was posted, whatever the current configuration
+	const message = await thread.messages.fetch(link.messageId)
+	const sender = await makeSender(thread.parentId!, comment.author, message.webhookId !== null)
+	const contents = makeDiscordMessages(comment.author, comment.url, comment.body, sender)
+	const [messageId, ...chunkIds] = await editMessages(thread, [link.messageId, ...link.chunkIds ?? []], contents, sender)
+	store.linkMessage({ ...link, messageId: messageId!, chunkIds })
+}
+
+/**
+ * Replace the content of the starter message of a thread mirrored from GitHub
+ */
+export async function updateDiscordStarterMessage(thread: AnyThreadChannel, discussion: GithubDiscussion) {
+	logger.info(`[Discord] Updating starter message of Discord thread ${thread.id}: ${discussion.body}`)
+	const message = await thread.fetchStarterMessage()
+	if (!message) {
+		logger.warning(`[Discord] Starter message of thread ${thread.id} does not exist anymore`)
+		return
+	}
+	// the Discord marker is added to the discussion once the thread is created, it is not part of the content
+	const body = discussion.body.replace(/\s*<!-- Discord:\d+ -->/g, "")
+	const sender = await makeSender(thread.parentId!, discussion.author, message.webhookId !== null)
+	const contents = makeDiscordMessages(discussion.author, discussion.url, body, sender)
+	const link = store.getThreadLinkByThread(thread.id)
+	const [, ...chunkIds] = await editMessages(thread, [message.id, ...link?.chunkIds ?? []], contents, sender)
+	if (link) {
+		store.linkThread({ ...link, chunkIds })
+	}
+}
+
+export async function deleteDiscordMessage(thread: AnyThreadChannel, link: MessageLink) {
+	logger.info(`[Discord] Deleting message ${link.messageId} in Discord thread ${thread.id}`)
+	for (const id of [link.messageId, ...link.chunkIds ?? []]) {
+		await thread.messages.delete(id)
+	}
+}
+
+/**
+ * Replace the content of a message mirrored from GitHub by a tombstone, the other parts of the message are deleted
+ */
+export async function tombstoneDiscordMessage(thread: AnyThreadChannel, link: MessageLink) {
+	logger.info(`[Discord] Replacing message ${link.messageId} in Discord thread ${thread.id} by a tombstone`)
+	const message = await thread.messages.fetch(link.messageId)
+	await editMessages(thread, [message.id, ...link.chunkIds ?? []], [makeTombstone(message)], await makeTombstoneSender(thread, message))
+}
+
+export async function deleteDiscordThread(thread: AnyThreadChannel) {
+	logger.info(`[Discord] Deleting Discord thread ${thread.id}`)
+	await thread.delete()
+}
+
+/**
+ * Replace the starter message of a thread mirrored from GitHub by a tombstone and archive it
+ */
+export async function tombstoneDiscordThread(thread: AnyThreadChannel) {
+	logger.info(`[Discord] Replacing Discord thread ${thread.id} by a tombstone`)
+	const message = await thread.fetchStarterMessage()
+	if (message) {
+		await editMessages(thread, [message.id, ...store.getThreadLinkByThread(thread.id)?.chunkIds ?? []], [makeTombstone(message)], await makeTombstoneSender(thread, message))
+	}
+	await thread.setArchived(true)
+}
+
+function makeTombstone(message: Message): DiscordContent {
+	// keep the attribution header (or the embed of the webhook messages) so the message is still recognized as a mirror
+	const header = message.webhookId ? undefined : message.content.split("\n")[0]
+	return { content: [header, "*[deleted on GitHub]*"].filter(Boolean).join("\n"), allowedMentions: NO_MENTIONS }
+}
+
+/**
+ * the webhook sender of a message posted through the webhook, the author is kept as is
+ */
+async function makeTombstoneSender(thread: AnyThreadChannel, message: Message): Promise<WebhookSender | undefined> {
+	if (!message.webhookId) {
+		return undefined
+	}
+	return { webhook: await getWebhook(thread.parentId!), username: message.author.username, avatarURL: message.author.displayAvatarURL() }
+}
+
+/**
+ * Pin the message holding the answer of the discussion
+ */
+export async function highlightDiscordAnswer(thread: AnyThreadChannel, messageId: string) {
+	logger.info(`[Discord] Highlighting answer ${messageId} in Discord thread ${thread.id}`)
+	const message = await thread.messages.fetch(messageId)
+	await message.pin()
+	await message.react(config.answerEmoji)
+}
+
+/**
+ * Unpin the message that was holding the answer of the discussion
+ */
+export async function unhighlightDiscordAnswer(thread: AnyThreadChannel, messageId: string) {
+	logger.info(`[Discord] Removing answer highlight of ${messageId} in Discord thread ${thread.id}`)
+	const message = await thread.messages.fetch(messageId)
+	await message.unpin()
+	await message.reactions.resolve(config.answerEmoji)?.users.remove(discord.user!.id)
+}
+
+/**
+ * Add (or remove) the reaction of the bot on a message
+ */
+export async function setDiscordReaction(thread: AnyThreadChannel, messageId: string, emoji: string, reacted: boolean) {
+	logger.info(`[Discord] ${reacted ? "Adding" : "Removing"} reaction ${emoji} on message ${messageId} in Discord thread ${thread.id}`)
+	const message = await thread.messages.fetch(messageId)
+	if (reacted) {
+		await message.react(emoji)
+	} else {
+		await message.reactions.resolve(emoji)?.users.remove(discord.user!.id)
+	}
+}
+
+/**
+ * Archive or unarchive a thread, with a notice explaining why
+ */
+export async function setDiscordThreadArchived(thread: AnyThreadChannel, archived: boolean, notice: string) {
+	logger.info(`[Discord] ${archived ? "Archiving" : "Unarchiving"} Discord thread ${thread.id}`)
+	// sending a message unarchives the thread, the notice is sent before archiving it
+	if (archived) {
+		await thread.send(notice)
+	}
+	await thread.setArchived(archived)
+	if (!archived) {
+		await thread.send(notice)
+	}
+}
+
+/**
+ * Lock or unlock a thread, with a notice explaining why
+ */
+export async function setDiscordThreadLocked(thread: AnyThreadChannel, locked: boolean, notice: string) {
+	logger.info(`[Discord] ${locked ? "Locking" : "Unlocking"} Discord thread ${thread.id}`)
+	if (thread.archived) {
+		await thread.setArchived(false)
+	}
+	await thread.send(notice)
+	await thread.setLocked(locked)
 }
@@ -0,0 +1,83 @@
+import type { AnyThreadChannel } from "discord.js"
+import config from "./config/config"
+import logger from "./config/logger"
+import store from "./config/store"
+import type { ThreadMessage } from "./discord"
+import type { GithubDiscussion } from "./github"
+import type { ForumTag } from "./tags"
+
+const filters = config.filters.map((filter) => ({
+	...filter,
+	regex: new RegExp(filter.pattern, filter.flags.includes("g") ? filter.flags : `${filter.flags}g`),
+}))
+
+export interface FilteredContent {
+	content: string
+	/**
+	 * the name of the filter blocking the content, if any
+	 */
+	blockedBy?: string
+}
+
+/**
+ * Apply the content filters on a content about to be mirrored
+ */
+export function filterContent(content: string): FilteredContent {
+	for (const filter of filters) {
+		if (filter.action === "block" && content.search(filter.regex) !== -1) {
+			return { content, blockedBy: filter.name }
+		}
+	}
+	return {
+		content: filters
+			.filter((it) => it.action === "redact")
+			.reduce((text, it) => text.replace(it.regex, it.replacement), content),
+	}
+}
+
+/**
+ * @returns whether the content is blocked by a filter, the reason is logged
+ */
+export function isBlocked(content: string, description: string): boolean {
+	const { blockedBy } = filterContent(content)
+	if (blockedBy) {
+		logger.info(`[Filters] Not mirroring ${description}, blocked by the filter ${blockedBy}`)
+	}
+	return !!blockedBy
+}
+
+/**
+ * @returns whether a Discord message can be mirrored on GitHub, its author may have opted out
+ */
+export function canMirrorToGithub(message: ThreadMessage): boolean {
+	if (store.isUserOptedOut(message.userId)) {
+		logger.info(`[Filters] Not mirroring message ${message.id}, its author opted out`)
+		return false
+	}
+	// the embeds and file names are mirrored too
+	const texts = [
+		message.message,
+		...message.embeds.flatMap((it) => [it.title, it.description]),
+		...message.attachments.map((it) => it.name),
+		...message.stickers.map((it) => it.name),
+	]
+	return !isBlocked(texts.filter(Boolean).join("\n"), `message ${message.id}`)
+}
+
+/**
+ * @param availableTags the tags of the forum of the thread
+ * @returns whether the thread is marked as not to be mirrored on GitHub
+ */
+export function isDiscordOnly(thread: AnyThreadChannel, availableTags: Array<ForumTag>): boolean {
+	const tag = config.exclusions.discordOnlyTag
+	return !!tag && availableTags.some((it) => thread.appliedTags.includes(it.id) && it.name.toLowerCase() === tag.toLowerCase())
+}
+
+/**
+ * @param discussion the discussion, with its labels
+ * @returns whether the discussion is marked as not to be mirrored on Discord
+ */
+export function isGithubOnly(discussion: GithubDiscussion): boolean {
+	const label = config.exclusions.githubOnlyLabel
+	return !!label && (discussion.labels?.nodes ?? []).some((it) => it.name.toLowerCase() === label.toLowerCase())
+}
@@ -2,36 +2,90 @@ import { graphql } from "@octokit/graphql"
 import type { AnyThreadChannel, Message } from "discord.js"
 import { Octokit } from "@octokit/rest"
 import logger from "./config/logger"
-import type { ThreadMessage } from "./discord";
+import store from "./config/store"
+import config from "./config/config"
+import mappings, { type Mapping } from "./config/mappings"
+import { toThreadMessage, type ThreadMessage } from "./discord";
+import { renderDiscordContent } from "./attachments/markdown";
+import { makeOriginMarker } from "./origin";
+import type { GithubReactionContent } from "./reactions";
 
-const FORUM_CHANNEL_ID = process.env.FORUM_CHANNEL_ID || "1375527112521552003";
-const GITHUB_REPO = process.env.GITHUB_REPO || "";
-const GITHUB_OWNER = process.env.GITHUB_OWNER || "";
-const CATEGORY_NAME = process.env.CATEGORY_NAME || "General";
+// mapping => category ID, will be set at startup
+const REPO_CATEGORY_IDS = new Map<Mapping, string>();
+// the account of the token, the comments mirrored from Discord are posted with it
+let viewerLogin: string | undefined;
 
-let REPO_CATEGORY_ID: string | null = null; // will be set at startup
+// labels rarely change, they are cached to not fetch them on each sync
+const LABELS_CACHE_DURATION = 5 * 60 * 1000;
+const REPO_LABELS = new Map<Mapping, { labels: Array<GithubLabel>, expires: number }>();
+
+// maximum length of a discussion body or comment
+const MAX_COMMENT_LENGTH = 65536;
 
 // Type definitions for our application
 export type GithubDiscussion = {
 	id: string
 	number: number
+	url: string
 	title: string
 	body: string
+	repository: {
+		nameWithOwner: string
+	}
 	author: {
 		login: string
+		avatarUrl: string
 	}
-	category?: {
-		node_id: string
+	category: {
+		id: string
 		name: string
+		isAnswerable: boolean
+	}
+	/**
+	 * only available when fetched through the GraphQL API
+	 */
+	isAnswered?: boolean | null
+	closed: boolean
+	locked: boolean
+	/**
+	 * only available when fetched through the GraphQL API
+	 */
+	labels?: {
+		nodes: Array<GithubLabel>
 	}
 }
 
 export type GithubComment = {
 	id: string
 	databaseId: number
+	url: string
 	body: string
+	createdAt: string
 	author: {
 		login: string
+		avatarUrl: string
+	}
+	/**
+	 * the comment this one replies to, only available when fetched through the GraphQL API
+	 */
+	replyTo?: {
+		id: string
+	} | null
+}
+
+export type GithubLabel = {
+	id: string
+	name: string
+}
+
+export type GithubReactionGroup = {
+	content: GithubReactionContent
+	/**
+	 * whether the bot is one of the users who reacted
+	 */
+	viewerHasReacted: boolean
+	reactors: {
+		totalCount: number
 	}
 }
 
@@ -40,14 +94,52 @@ export type GithubCategory = {
 	name: string
 }
 
-const GITHUB_TOKEN = process.env.GITHUB_TOKEN
+/**
+ * Convert a discussion from a webhook payload (REST format) to the GraphQL format used everywhere else
+ */
+export function fromWebhookDiscussion(payload: any, repository: any): GithubDiscussion {
+	return {
+		id: payload.node_id,
+		number: payload.number,
+		url: payload.html_url,
+		title: payload.title,
+		body: payload.body ?? "",
+		repository: {
+			nameWithOwner: repository.full_name,
+		},
+		author: {
+			login: payload.user.login,
+			avatarUrl: payload.user.avatar_url,
+		},
+		category: {
+			id: payload.category.node_id,
+			name: payload.category.name,
+			isAnswerable: payload.category.is_answerable,
+		},
+		closed: payload.state === "closed",
+		locked: payload.locked,
+	}
+}
 
-// Check if tokens are available
-if (!GITHUB_TOKEN) {
-	logger.critical("[Github] Error: GITHUB_TOKEN is not set in environment variables")
-	process.exit(1)
+/**
+ * Convert a comment from a webhook payload (REST format) to the GraphQL format used everywhere else
+ */
+export function fromWebhookComment(payload: any): GithubComment {
+	return {
+		id: payload.node_id,
+		databaseId: payload.id,
+		url: payload.html_url,
+		body: payload.body ?? "",
+		createdAt: payload.created_at,
+		author: {
+			login: payload.user.login,
+			avatarUrl: payload.user.avatar_url,
+		},
+	}
 }
 
+const GITHUB_TOKEN = config.github.token
+
 const octokit = new Octokit({ auth: GITHUB_TOKEN })
 
 // GraphQL typed client
@@ -58,19 +150,35 @@ const graphqlWithAuth = graphql.defaults({
 });
 
 export async function loadGithub() {
-	REPO_CATEGORY_ID = await fetchRepoCategoryIdByName(CATEGORY_NAME);
+	const result: { viewer: { login: string } } = await graphqlWithAuth(`query { viewer { login } }`);
+	viewerLogin = result.viewer.login;
+	for (const mapping of mappings) {
+		REPO_CATEGORY_IDS.set(mapping, await fetchRepoCategoryIdByName(mapping));
+	}
 }
 
+/**
+ * @returns the login of the account the bot posts with on GitHub, once loaded
+ */
+export function getGithubLogin(): string | undefined {
+	return viewerLogin;
+}
+
+/**
+ * Discord replies are posted as threaded replies of the comment mirroring the message they reply to
+ */
 export async function pushGithubComment(thread: AnyThreadChannel, message: ThreadMessage, discussion: GithubDiscussion) {
 	const url = `https://discord.com/channels/${thread.guild.id}/${thread.id}/${message.id}`
+	const parent = message.replyToId ? store.getMessageLinkByMessage(message.replyToId) : undefined
 
 	logger.info(`[Github] Sending comment to GitHub discussion ${discussion.number}: ${message.message}`)
-	await graphqlWithAuth(
+	const result: { addDiscussionComment: { comment: { id: string } } } = await graphqlWithAuth(
 		`
-			mutation($discussionId: ID!, $body: String!) {
+			mutation($discussionId: ID!, $body: String!, $replyToId: ID) {
 				addDiscussionComment(input: {
 					discussionId: $discussionId,
-					body: $body
+					body: $body,
+					replyToId: $replyToId
 				}) {
 					comment {
 						id
@@ -80,44 +188,337 @@ export async function pushGithubComment(thread: AnyThreadChannel, message: Threa
 		`,
 		{
 			discussionId: discussion.id,
-			body: makeGithubComment(message.message, message.user, url)
+			body: makeGithubComment(await renderDiscordContent(message), makeAuthor(message), url, `\n\n${makeOriginMarker(message.id)}`),
+			replyToId: parent ? await getThreadCommentId(parent.commentId) : undefined,
 		}
 	)
 
-	await new Promise((resolve) => setTimeout(resolve, 1000))
+	const comment = result.addDiscussionComment.comment
+	store.linkMessage({ messageId: message.id, commentId: comment.id, threadId: thread.id, origin: "discord" })
+
+	return comment
+}
+
+/**
+ * Replace the content of a comment mirrored from Discord
+ */
+export async function updateGithubComment(thread: AnyThreadChannel, message: ThreadMessage, commentId: string) {
+	const url = `https://discord.com/channels/${thread.guild.id}/${thread.id}/${message.id}`
+
+	logger.info(`[Github] Updating comment ${commentId}: ${message.message}`)
+	await graphqlWithAuth(
+		`
+			mutation($commentId: ID!, $body: String!) {
+				updateDiscussionComment(input: {
+					commentId: $commentId,
+					body: $body
+				}) {
+					comment {
+						id
+					}
+				}
+			}
+		`,
+		{
+			commentId,
+			body: makeGithubComment(await renderDiscordContent(message), makeAuthor(message), url, `\n\n${makeOriginMarker(message.id)}`)
+		}
+	)
+}
+
+export async function deleteGithubComment(commentId: string) {
+	logger.info(`[Github] Deleting comment ${commentId}`)
+	await graphqlWithAuth(
+		`
+			mutation($id: ID!) {
+				deleteDiscussionComment(input: { id: $id }) {
+					comment {
+						id
+					}
+				}
+			}
+		`,
+		{ id: commentId }
+	)
+}
+
+/**
+ * Replace the content of a comment mirrored from Discord by a tombstone
+ */
+export async function tombstoneGithubComment(commentId: string) {
+	const res: { node: { body: string } | null } = await graphqlWithAuth(
+		`
+			query($id: ID!) {
+				node(id: $id) {
+					... on DiscussionComment {
+						body
+					}
+				}
+			}
+		`,
+		{ id: commentId }
+	)
+	if (!res.node) {
+		return
+	}
+
+	logger.info(`[Github] Replacing comment ${commentId} by a tombstone`)
+	await graphqlWithAuth(
+		`
+			mutation($commentId: ID!, $body: String!) {
+				updateDiscussionComment(input: {
+					commentId: $commentId,
+					body: $body
+				}) {
+					comment {
+						id
+					}
+				}
+			}
+		`,
+		{ commentId, body: makeTombstone(res.node.body) }
+	)
 }
 
+export async function deleteGithubDiscussion(discussionId: string) {
+	logger.info(`[Github] Deleting discussion ${discussionId}`)
+	await graphqlWithAuth(
+		`
+			mutation($id: ID!) {
+				deleteDiscussion(input: { id: $id }) {
+					discussion {
+						id
+					}
+				}
+			}
+		`,
+		{ id: discussionId }
+	)
+}
 
+/**
+ * Replace the body of a discussion mirrored from Discord by a tombstone
+ */
+export async function tombstoneGithubDiscussion(discussionId: string) {
+	const discussion = await getGithubDiscussion(discussionId)
+	if (!discussion) {
+		return
+	}
+
+	logger.info(`[Github] Replacing discussion #${discussion.number} by a tombstone`)
+	await graphqlWithAuth(
+		`
+		mutation($id: ID!, $body: String!) {
+			updateDiscussion(input: {
+				discussionId: $id,
+				body: $body
+			}) {
+				discussion {
+					id
+				}
+			}
+		}
+		`,
+		{ id: discussionId, body: makeTombstone(discussion.body) }
+	)
+}
+
+/**
+ * @returns whether a GraphQL error reports an item that does not exist
+ */
+function isNotFound(error: any): boolean {
+	return !!error?.errors?.some?.((it: any) => it?.type === "NOT_FOUND");
+}
+
+/**
+ * Fetch a discussion from its node ID
+ *
+ * @returns the discussion or undefined if it does not exist anymore
+ */
+export async function getGithubDiscussion(id: string): Promise<GithubDiscussion | undefined> {
+	try {
+		const res: { node: GithubDiscussion | null } = await graphqlWithAuth(
+			`
+			query ($id: ID!) {
+				node(id: $id) {
+					... on Discussion {
+						id
+						number
+						url
+						title
+						body
+						repository {
+							nameWithOwner
+						}
+						author {
+							login
+							avatarUrl
+						}
+						category {
+							id
+							name
+							isAnswerable
+						}
+						isAnswered
+						closed
+						locked
+						labels(first: 20) {
+							nodes {
+								id
+								name
+							}
+						}
+					}
+				}
+			}
+			`,
+			{ id },
+		);
+		return res.node ?? undefined;
+	} catch (error: any) {
+		// deleted discussions are reported as a NOT_FOUND error, the other errors must not be taken for a deletion
+		if (!isNotFound(error)) {
+			throw error;
+		}
+		logger.warning(`[Github] Could not fetch discussion ${id}: ${error.message}`);
+		return undefined;
+	}
+}
+
+/**
+ * @param number the number of the discussion in the repository of the mapping
+ */
+export async function getGithubDiscussionByNumber(mapping: Mapping, number: number): Promise<GithubDiscussion | undefined> {
+	try {
+		const res: { repository: { discussion: GithubDiscussion | null } } = await graphqlWithAuth(
+			`
+			query ($owner: String!, $repo: String!, $number: Int!) {
+				repository(owner: $owner, name: $repo) {
+					discussion(number: $number) {
+						id
+						number
+						url
+						title
+						body
+						repository {
+							nameWithOwner
+						}
+						author {
+							login
+							avatarUrl
+						}
+						category {
+							id
+							name
+							isAnswerable
+						}
+						isAnswered
+						closed
+						locked
+						labels(first: 20) {
+							nodes {
+								id
+								name
+							}
+						}
+					}
+				}
+			}
+			`,
+			{ owner: mapping.owner, repo: mapping.repo, number },
+		);
+		return res.repository.discussion ?? undefined;
+	} catch (error: any) {
+		// unknown discussions are reported as a NOT_FOUND error
+		if (!isNotFound(error)) {
+			throw error;
+		}
+		logger.warning(`[Github] Could not fetch discussion #${number} of ${mapping.owner}/${mapping.repo}: ${error.message}`);
+		return undefined;
+	}
+}
+
+/**
+ * GitHub threads are only one level deep, a reply to a reply is a reply to the top-level comment
+ *
+ * @returns the ID of the top-level comment of the thread the comment is part of
+ */
+async function getThreadCommentId(commentId: string): Promise<string | undefined> {
+	const res: { node: { id: string, replyTo: { id: string } | null } | null } = await graphqlWithAuth(
+		`
+			query($id: ID!) {
+				node(id: $id) {
+					... on DiscussionComment {
+						id
+						replyTo {
+							id
+						}
+					}
+				}
+			}
+		`,
+		{ id: commentId }
+	)
+	return res.node?.replyTo?.id ?? res.node?.id
+}
+
+/**
+ * @returns the comments of the discussion and their replies, the replies follow the comment they reply to
+ */
 export async function listGithubComments(discussion: GithubDiscussion) {
 	const comments: Array<GithubComment> = [];
 	let offset: string | undefined = undefined;
 	let hasNextPage = true;
 	while (hasNextPage) {
 		const res: {
-			repository: {
-				discussion: {
-					comments: {
-						totalCount: number;
-						nodes: Array<GithubComment>;
-						pageInfo: { hasNextPage: boolean; endCursor: string };
-					};
+			node: {
+				comments: {
+					totalCount: number;
+					nodes: Array<GithubComment & {
+						replies: {
+							nodes: Array<GithubComment>;
+							pageInfo: { hasNextPage: boolean; endCursor: string };
+						};
+					}>;
+					pageInfo: { hasNextPage: boolean; endCursor: string };
 				};
 			};
 		} = await graphqlWithAuth(
 			`
-			query ($owner: String!, $name: String!, $id: Int!, $offset: String) {
-				repository(owner: $owner, name: $name) {
-					discussion(number: $id) {
-						id
-						number
-						body
+			query ($id: ID!, $offset: String) {
+				node(id: $id) {
+					... on Discussion {
 						comments(first: 100, after: $offset) {
 							totalCount
 							nodes {
 								id
+								databaseId
+								url
 								body
+								createdAt
 								author {
 									login
+									avatarUrl
+								}
+								replies(first: 100) {
+									nodes {
+										id
+										databaseId
+										url
+										body
+										createdAt
+										author {
+											login
+											avatarUrl
+										}
+										replyTo {
+											id
+										}
+									}
+									pageInfo {
+										hasNextPage
+										endCursor
+									}
 								}
 							}
 							pageInfo{
@@ -129,18 +530,76 @@ export async function listGithubComments(discussion: GithubDiscussion) {
 				}
 			}
 			`,
-			{ owner: GITHUB_OWNER, name: GITHUB_REPO, id: discussion.number, offset: offset },
+			{ id: discussion.id, offset: offset },
 		);
-		offset = res.repository.discussion.comments.pageInfo.endCursor;
-		hasNextPage = res.repository.discussion.comments.pageInfo.hasNextPage;
-		comments.push(...res.repository.discussion.comments.nodes)
-
-		await new Promise((resolve) => setTimeout(resolve, 1000));
+		offset = res.node.comments.pageInfo.endCursor;
+		hasNextPage = res.node.comments.pageInfo.hasNextPage;
+		for (const { replies, ...comment } of res.node.comments.nodes) {
+			comments.push({ ...comment, replyTo: null }, ...replies.nodes)
+			if (replies.pageInfo.hasNextPage) {
+				comments.push(...await listGithubReplies(comment.id, replies.pageInfo.endCursor))
+			}
+		}
 	}
 
 	return comments;
 }
 
+/**
+ * @param offset the cursor of the last reply already fetched
+ * @returns the replies of a comment following the cursor
+ */
+async function listGithubReplies(commentId: string, offset: string): Promise<Array<GithubComment>> {
+	const replies: Array<GithubComment> = [];
+	let cursor: string | undefined = offset;
+	let hasNextPage = true;
+	while (hasNextPage) {
+		const res: {
+			node: {
+				replies: {
+					nodes: Array<GithubComment>;
+					pageInfo: { hasNextPage: boolean; endCursor: string };
+				};
+			};
+		} = await graphqlWithAuth(
+			`
+			query ($id: ID!, $offset: String) {
+				node(id: $id) {
+					... on DiscussionComment {
+						replies(first: 100, after: $offset) {
+							nodes {
+								id
+								databaseId
+								url
+								body
+								createdAt
+								author {
+									login
+									avatarUrl
+								}
+								replyTo {
+									id
+								}
+							}
+							pageInfo {
+								hasNextPage
+								endCursor
+							}
+						}
+					}
+				}
+			}
+			`,
+			{ id: commentId, offset: cursor },
+		);
+		cursor = res.node.replies.pageInfo.endCursor;
+		hasNextPage = res.node.replies.pageInfo.hasNextPage;
+		replies.push(...res.node.replies.nodes);
+	}
+
+	return replies;
+}
+
 export async function updateDiscussion(discussion: GithubDiscussion, discordId: string): Promise<void> {
 	logger.info(`[Github] Updating discussion #${discussion.number} with body: ${discussion.body}`);
 	await graphqlWithAuth(
@@ -161,22 +620,92 @@ export async function updateDiscussion(discussion: GithubDiscussion, discordId:
 			body: `${discussion.body}\n\n<!-- Discord:${discordId} -->`,
 		},
 	);
+}
+
+/**
+ * the name of the Discord author of a message, with the GitHub account they linked so they are notified of the replies
+ */
+function makeAuthor(message: ThreadMessage) {
+	const login = store.getIdentityByDiscord(message.userId)?.githubLogin;
+	return login ? `${message.user} (@${login})` : message.user;
+}
+
+/**
+ * @param suffix content added after the message, kept when the message is truncated
+ */
+function makeGithubComment(message: string, author: string, url: string, suffix = "") {
+	const header = `💬 **${author}** on [Discord](${url}) wrote:\n\n`;
+	// GitHub rejects comments longer than 65536 characters, the full message stays available on Discord
+	const notice = `\n\n*[truncated, see the full message on [Discord](${url})]*`;
+	const maxLength = MAX_COMMENT_LENGTH - header.length - suffix.length;
+	const processedContent = message.length > maxLength
+		? message.substring(0, maxLength - notice.length) + notice
+		: message;
+	return `${header}${processedContent}${suffix}`;
+}
+
+/**
+ * Replace the body of a discussion mirrored from Discord after its starter message was edited
+ */
+export async function updateGithubDiscussionBody(discussion: GithubDiscussion, thread: AnyThreadChannel, message: Message) {
+	logger.info(`[Github] Updating body of discussion #${discussion.number}: ${message.content}`);
+	await graphqlWithAuth(
+		`
+		mutation($id: ID!, $body: String!) {
+			updateDiscussion(input: {
+				discussionId: $id,
+				body: $body
+			}) {
+				discussion {
+					id
+				}
+			}
+		}
+		`,
+		{ id: discussion.id, body: await makeDiscussionBody(thread, message) },
+	);
+}
 
-	await new Promise((resolve) => setTimeout(resolve, 1000));
+export async function updateGithubDiscussionTitle(discussion: GithubDiscussion, title: string) {
+	logger.info(`[Github] Renaming discussion #${discussion.number}: ${title}`);
+	await graphqlWithAuth(
+		`
+		mutation($id: ID!, $title: String!) {
+			updateDiscussion(input: {
+				discussionId: $id,
+				title: $title
+			}) {
+				discussion {
+					id
+				}
+			}
+		}
+		`,
+		{ id: discussion.id, title },
+	);
 }
 
-function makeGithubComment(message: string, author: string, url: string) {
-	// Check if message exceeds GitHub's comment size limit (65536 chars)
-	const processedContent = message
-	return `💬 **${author}** on [Discord](${url}) wrote:\n\n${processedContent}`;
+function makeTombstone(body: string) {
+	// keep the attribution header and the Discord marker so the item is still recognized as a mirror
+	const header = body.split("\n\n")[0]
+	const marker = /<!-- Discord:(?:message:)?\d+ -->/.exec(body)?.[0]
+	return [header, "*[deleted on Discord]*", marker].filter(Boolean).join("\n\n")
 }
 
-export async function createDiscussion(thread: AnyThreadChannel, message: Message) {
-	const author = message.author.username;
+/**
+ * the body of a discussion mirroring the starter message of a thread
+ */
+async function makeDiscussionBody(thread: AnyThreadChannel, message: Message) {
 	const url = `https://discord.com/channels/${thread.guild.id}/${thread.id}/${message.id}`;
+	const threadMessage = toThreadMessage(message);
+	const content = await renderDiscordContent(threadMessage);
+	return makeGithubComment(content, makeAuthor(threadMessage), url, `\n\n<!-- Discord:${thread.id} -->`);
+}
 
-	logger.info(`[Github] Creating discussion on GitHub repository ${CATEGORY_NAME}: ${thread.name}`);
-	const result = await graphqlWithAuth(
+export async function createDiscussion(mapping: Mapping, thread: AnyThreadChannel, message: Message) {
+
+	logger.info(`[Github] Creating discussion on GitHub category ${mapping.categoryName}: ${thread.name}`);
+	const result: { createDiscussion: { discussion: GithubDiscussion } } = await graphqlWithAuth(
 		`
         mutation($categoryId: ID!, $body: String!, $title: String!, $repositoryId: ID!) {
           createDiscussion(input: {
@@ -188,25 +717,49 @@ export async function createDiscussion(thread: AnyThreadChannel, message: Messag
             discussion {
               id
               number
+              url
+              title
+              body
+              repository {
+                nameWithOwner
+              }
+              author {
+                login
+                avatarUrl
+              }
+              category {
+                id
+                name
+                isAnswerable
+              }
+              isAnswered
+              closed
+              locked
+              labels(first: 20) {
+                nodes {
+                  id
+                  name
+                }
+              }
             }
           }
         }
       `,
 		{
-			categoryId: REPO_CATEGORY_ID,
+			categoryId: REPO_CATEGORY_IDS.get(mapping),
 			title: thread.name,
-			body: makeGithubComment(message.content + `\n\n<!-- Discord:${thread.id} -->`, author, url),
-			repositoryId: await getRepositoryId(),
+			body: await makeDiscussionBody(thread, message),
+			repositoryId: await getRepositoryId(mapping),
 		},
 	);
 
-	// wait for the discussion to be created and be available in the API
-	await new Promise((resolve) => setTimeout(resolve, 1000));
+	const discussion = result.createDiscussion.discussion
+	store.linkThread({ threadId: thread.id, discussionId: discussion.id, discussionNumber: discussion.number, origin: "discord" })
 
-	return result.createDiscussion.discussion as GithubDiscussion;
+	return discussion;
 }
 
-export async function listGithubDiscussions(): Promise<Array<GithubDiscussion>> {
+export async function listGithubDiscussions(mapping: Mapping): Promise<Array<GithubDiscussion>> {
 	const discussions: Array<GithubDiscussion> = [];
 	let offset: string | undefined = undefined;
 	let hasNextPage = true;
@@ -224,17 +777,36 @@ export async function listGithubDiscussions(): Promise<Array<GithubDiscussion>>
 			}
 		} = await graphqlWithAuth(
 			`
-			query ($owner: String!, $name: String!, $id: ID!) {
+			query ($owner: String!, $name: String!, $id: ID!, $offset: String) {
 				repository(owner: $owner, name: $name) {
-					discussions(categoryId: $id, first: 100) {
+					discussions(categoryId: $id, first: 100, after: $offset) {
 						totalCount
 						nodes {
 							id
 							body
 							number
+							url
 							title
+							repository {
+								nameWithOwner
+							}
 							author {
 								login
+								avatarUrl
+							}
+							category {
+								id
+								name
+								isAnswerable
+							}
+							isAnswered
+							closed
+							locked
+							labels(first: 20) {
+								nodes {
+									id
+									name
+								}
 							}
 						}
 						pageInfo{
@@ -245,24 +817,236 @@ export async function listGithubDiscussions(): Promise<Array<GithubDiscussion>>
 				}
 			}
 			`,
-			{ owner: GITHUB_OWNER, name: GITHUB_REPO, id: REPO_CATEGORY_ID, offset: offset },
+			{ owner: mapping.owner, name: mapping.repo, id: REPO_CATEGORY_IDS.get(mapping), offset: offset },
 		);
 		offset = res.repository.discussions.pageInfo.endCursor;
 		hasNextPage = res.repository.discussions.pageInfo.hasNextPage;
 		discussions.push(...res.repository.discussions.nodes)
-
-		await new Promise((resolve) => setTimeout(resolve, 1000));
 	}
 
 	return discussions
 }
 
 
-export async function fetchRepoCategoryIdByName(name: string, createIfNotExists: boolean = true): Promise<string> {
+/**
+ * Marker of the comments posted by the bot itself to explain a change, they are never mirrored
+ */
+export const NOTICE_MARKER = "<!-- Discord:notice -->"
+
+/**
+ * Post a comment explaining a change made from Discord
+ */
+async function addGithubNotice(discussion: GithubDiscussion, notice: string) {
+	logger.info(`[Github] Sending notice to GitHub discussion #${discussion.number}: ${notice}`);
+	await graphqlWithAuth(
+		`
+		mutation($discussionId: ID!, $body: String!) {
+			addDiscussionComment(input: { discussionId: $discussionId, body: $body }) {
+				comment {
+					id
+				}
+			}
+		}
+		`,
+		{ discussionId: discussion.id, body: `${notice}\n\n${NOTICE_MARKER}` },
+	);
+}
+
+/**
+ * Close or reopen a discussion, with a notice explaining why
+ */
+export async function setGithubDiscussionClosed(discussion: GithubDiscussion, closed: boolean, notice: string) {
+	logger.info(`[Github] ${closed ? "Closing" : "Reopening"} discussion #${discussion.number}`);
+	if (closed) {
+		await addGithubNotice(discussion, notice);
+	}
+	await graphqlWithAuth(
+		closed ? `
+		mutation($id: ID!) {
+			closeDiscussion(input: { discussionId: $id, reason: RESOLVED }) {
+				discussion {
+					id
+				}
+			}
+		}
+		` : `
+		mutation($id: ID!) {
+			reopenDiscussion(input: { discussionId: $id }) {
+				discussion {
+					id
+				}
+			}
+		}
+		`,
+		{ id: discussion.id },
+	);
+	if (!closed) {
+		await addGithubNotice(discussion, notice);
+	}
+}
+
+/**
+ * Lock or unlock a discussion, with a notice explaining why
+ */
+export async function setGithubDiscussionLocked(discussion: GithubDiscussion, locked: boolean, notice: string) {
+	logger.info(`[Github] ${locked ? "Locking" : "Unlocking"} discussion #${discussion.number}`);
+	if (locked) {
+		await addGithubNotice(discussion, notice);
+	}
+	await graphqlWithAuth(
+		locked ? `
+		mutation($id: ID!) {
+			lockLockable(input: { lockableId: $id }) {
+				clientMutationId
+			}
+		}
+		` : `
+		mutation($id: ID!) {
+			unlockLockable(input: { lockableId: $id }) {
+				clientMutationId
+			}
+		}
+		`,
+		{ id: discussion.id },
+	);
+	if (!locked) {
+		await addGithubNotice(discussion, notice);
+	}
+}
+
+export async function markGithubCommentAsAnswer(commentId: string) {
+	logger.info(`[Github] Marking comment ${commentId} as the answer`);
+	await graphqlWithAuth(
+		`
+		mutation($id: ID!) {
+			markDiscussionCommentAsAnswer(input: { id: $id }) {
+				discussion {
+					id
+				}
+			}
+		}
+		`,
+		{ id: commentId },
+	);
+}
+
+/**
+ * @param subjectIds the IDs of the discussions and comments
+ * @returns subject ID => reactions of the subject, deleted subjects are left out
+ */
+export async function listGithubReactions(subjectIds: Array<string>): Promise<Map<string, Array<GithubReactionGroup>>> {
+	const reactions = new Map<string, Array<GithubReactionGroup>>();
+	// nodes are limited to 100 IDs per query
+	for (let idx = 0; idx < subjectIds.length; idx += 100) {
+		const res: { nodes: Array<{ id: string, reactionGroups: Array<GithubReactionGroup> } | null> } = await graphqlWithAuth(
+			`
+			query($ids: [ID!]!) {
+				nodes(ids: $ids) {
+					id
+					... on Reactable {
+						reactionGroups {
+							content
+							viewerHasReacted
+							reactors {
+								totalCount
+							}
+						}
+					}
+				}
+			}
+			`,
+			{ ids: subjectIds.slice(idx, idx + 100) },
+		);
+		for (const node of res.nodes) {
+			if (node) {
+				reactions.set(node.id, node.reactionGroups);
+			}
+		}
+	}
+
+	return reactions;
+}
+
+/**
+ * Add (or remove) the reaction of the bot on a discussion or comment
+ */
+export async function setGithubReaction(subjectId: string, content: GithubReactionContent, reacted: boolean) {
+	logger.info(`[Github] ${reacted ? "Adding" : "Removing"} reaction ${content} on ${subjectId}`);
+	const mutation = reacted ? "addReaction" : "removeReaction";
+	await graphqlWithAuth(
+		`
+		mutation($subjectId: ID!, $content: ReactionContent!) {
+			${mutation}(input: { subjectId: $subjectId, content: $content }) {
+				reaction {
+					content
+				}
+			}
+		}
+		`,
+		{ subjectId, content },
+	);
+}
+
+export async function listGithubLabels(mapping: Mapping): Promise<Array<GithubLabel>> {
+	const cached = REPO_LABELS.get(mapping);
+	if (cached && cached.expires > Date.now()) {
+		return cached.labels;
+	}
+
+	const res: { repository: { labels: { nodes: Array<GithubLabel> } } } = await graphqlWithAuth(
+		`
+		query ($owner: String!, $name: String!) {
+			repository(owner: $owner, name: $name) {
+				labels(first: 100) {
+					nodes {
+						id
+						name
+					}
+				}
+			}
+		}
+		`,
+		{ owner: mapping.owner, name: mapping.repo },
+	);
+
+	REPO_LABELS.set(mapping, { labels: res.repository.labels.nodes, expires: Date.now() + LABELS_CACHE_DURATION });
+	return res.repository.labels.nodes;
+}
+
+export async function addGithubLabels(discussion: GithubDiscussion, labels: Array<GithubLabel>) {
+	logger.info(`[Github] Adding labels ${labels.map((it) => it.name).join(", ")} to discussion #${discussion.number}`);
+	await graphqlWithAuth(
+		`
+		mutation($id: ID!, $labelIds: [ID!]!) {
+			addLabelsToLabelable(input: { labelableId: $id, labelIds: $labelIds }) {
+				clientMutationId
+			}
+		}
+		`,
+		{ id: discussion.id, labelIds: labels.map((it) => it.id) },
+	);
+}
+
+export async function removeGithubLabels(discussion: GithubDiscussion, labels: Array<GithubLabel>) {
+	logger.info(`[Github] Removing labels ${labels.map((it) => it.name).join(", ")} from discussion #${discussion.number}`);
+	await graphqlWithAuth(
+		`
+		mutation($id: ID!, $labelIds: [ID!]!) {
+			removeLabelsFromLabelable(input: { labelableId: $id, labelIds: $labelIds }) {
+				clientMutationId
+			}
+		}
+		`,
+		{ id: discussion.id, labelIds: labels.map((it) => it.id) },
+	);
+}
+
+export async function fetchRepoCategoryIdByName(mapping: Mapping, createIfNotExists: boolean = true): Promise<string> {
+	const name = mapping.categoryName;
 	try {
 		// First check if the repository exists and has discussions enabled
 		try {
-			const repoResult = await graphqlWithAuth(
+			const repoResult: { repository: { id: string, hasDiscussionsEnabled: boolean } | null } = await graphqlWithAuth(
 				`
         query($owner: String!, $repo: String!) {
           repository(owner: $owner, name: $repo) {
@@ -271,18 +1055,18 @@ export async function fetchRepoCategoryIdByName(name: string, createIfNotExists:
           }
         }
       `,
-				{ owner: GITHUB_OWNER, repo: GITHUB_REPO },
+				{ owner: mapping.owner, repo: mapping.repo },
 			);
 
 			if (!repoResult.repository) {
 				throw new Error(
-					`Repository ${GITHUB_OWNER}/${GITHUB_REPO} not found. Check your GITHUB_OWNER and GITHUB_REPO settings.`,
+					`Repository ${mapping.owner}/${mapping.repo} not found. Check your owner and repo settings.`,
 				);
 			}
 
 			if (!repoResult.repository.hasDiscussionsEnabled) {
 				throw new Error(
-					`Discussions are not enabled on repository ${GITHUB_OWNER}/${GITHUB_REPO}. Enable them in repository settings.`,
+					`Discussions are not enabled on repository ${mapping.owner}/${mapping.repo}. Enable them in repository settings.`,
 				);
 			}
 		} catch (repoError: any) {
@@ -291,7 +1075,7 @@ export async function fetchRepoCategoryIdByName(name: string, createIfNotExists:
 		}
 
 		// Now fetch discussion categories
-		const result = await graphqlWithAuth(
+		const result: { repository: { discussionCategories: { nodes: Array<GithubCategory> } } | null } = await graphqlWithAuth(
 			`
       query($owner: String!, $repo: String!) {
         repository(owner: $owner, name: $repo) {
@@ -304,11 +1088,11 @@ export async function fetchRepoCategoryIdByName(name: string, createIfNotExists:
         }
       }
     `,
-			{ owner: GITHUB_OWNER, repo: GITHUB_REPO },
+			{ owner: mapping.owner, repo: mapping.repo },
 		);
 
 		if (!result.repository) {
-			throw new Error(`Could not access repository ${GITHUB_OWNER}/${GITHUB_REPO}`);
+			throw new Error(`Could not access repository ${mapping.owner}/${mapping.repo}`);
 		}
 
 		const categories = result.repository.discussionCategories.nodes;
@@ -316,7 +1100,7 @@ export async function fetchRepoCategoryIdByName(name: string, createIfNotExists:
 
 		// If category doesn't exist and createIfNotExists is true, create it
 		if (!cat) {
-			throw new Error(`Category '${name}' not found in repository ${GITHUB_OWNER}/${GITHUB_REPO}`);
+			throw new Error(`Category '${name}' not found in repository ${mapping.owner}/${mapping.repo}`);
 		}
 
 		return cat.id;
@@ -326,9 +1110,9 @@ export async function fetchRepoCategoryIdByName(name: string, createIfNotExists:
 	}
 }
 
-async function getRepositoryId(): Promise<string> {
+async function getRepositoryId(mapping: Mapping): Promise<string> {
 	try {
-		const result = await graphqlWithAuth(
+		const result: { repository: { id: string } | null } = await graphqlWithAuth(
 			`
       query($owner: String!, $repo: String!) {
         repository(owner: $owner, name: $repo) {
@@ -336,18 +1120,19 @@ async function getRepositoryId(): Promise<string> {
         }
       }
     `,
-			{ owner: GITHUB_OWNER, repo: GITHUB_REPO },
+			{ owner: mapping.owner, repo: mapping.repo },
 		);
 
 		if (!result.repository) {
 			throw new Error(
-				`Repository ${GITHUB_OWNER}/${GITHUB_REPO} not found. Check your GITHUB_OWNER and GITHUB_REPO settings.`,
+				`Repository ${mapping.owner}/${mapping.repo} not found. Check your owner and repo settings.`,
 			);
 		}
 
 		return result.repository.id;
 	} catch (error: any) {
 		logger.error(`[Github] Failed to fetch repository ID: ${error.message}`);
-		throw new Error(`Cannot access repository: ${error.message}`);
+		// the queue reads the status and headers of the original error to detect the rate limits
+		throw error;
 	}
 }
@@ -0,0 +1,66 @@
+import crypto from "node:crypto"
+import logger from "./config/logger"
+import store from "./config/store"
+import type { GithubComment } from "./github"
+import type { IdentityLink } from "./store/store-interface"
+
+/**
+ * time a Discord user has to post the code on GitHub
+ */
+const CODE_DURATION = 15 * 60 * 1000
+
+/**
+ * a comment containing only a link code, it is never mirrored to Discord
+ */
+export const LINK_CODE = /^\s*discord-link:([A-Z\d]{8})\s*$/
+
+const pendingCodes = new Map<string, { discordId: string, githubLogin: string, expires: number }>()
+
+/**
+ * Start linking a Discord user to a GitHub account
+ *
+ * The link is only made once the code is posted in a comment by the GitHub account.
+ *
+ * @returns the text of the comment to post on GitHub
+ */
+export function createLinkCode(discordId: string, githubLogin: string): string {
+	// a user only has one pending code at a time
+	for (const [code, pending] of pendingCodes) {
+		if (pending.discordId === discordId || pending.expires < Date.now()) {
+			pendingCodes.delete(code)
+		}
+	}
+
+	const code = crypto.randomBytes(4).toString("hex").toUpperCase()
+	pendingCodes.set(code, { discordId, githubLogin, expires: Date.now() + CODE_DURATION })
+	return `discord-link:${code}`
+}
+
+/**
+ * Link the accounts when the comment contains a pending code posted by the expected GitHub account
+ *
+ * @returns the new link, if the comment was a valid link code
+ */
+export function verifyLinkCode(comment: GithubComment): IdentityLink | undefined {
+	const code = LINK_CODE.exec(comment.body)?.[1]
+	const pending = code ? pendingCodes.get(code) : undefined
+	if (!code || !pending) {
+		return undefined
+	}
+	if (pending.expires < Date.now() || pending.githubLogin.toLowerCase() !== comment.author.login.toLowerCase()) {
+		logger.warning(`[Identity] Ignoring link code ${code} posted by ${comment.author.login}`)
+		return undefined
+	}
+
+	pendingCodes.delete(code)
+	store.linkIdentity({ discordId: pending.discordId, githubLogin: comment.author.login })
+	logger.info(`[Identity] Linked Discord user ${pending.discordId} to GitHub account ${comment.author.login}`)
+	return store.getIdentityByDiscord(pending.discordId)
+}
+
+/**
+ * @returns GitHub login (lowercase) => Discord user ID of every linked account
+ */
+export function listDiscordIdsByLogin(): Record<string, string> {
+	return Object.fromEntries(store.listIdentities().map((it) => [it.githubLogin.toLowerCase(), it.discordId]))
+}
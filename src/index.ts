@@ -3,38 +3,67 @@ import bodyParser from "body-parser"
 import {
 	ThreadChannel,
 	Message,
+	MessageFlags,
 	type AnyThreadChannel,
+	type ChatInputCommandInteraction,
+	type Interaction,
+	type MessageReaction,
+	type PartialMessage,
+	type PartialMessageReaction,
+	type PartialUser,
+	type User,
 } from "discord.js"
-import { createThread, destroyDiscord, discord, initDiscord, listDiscordMessages, listDiscordThreads, pushDiscordMessage } from "./discord"
+import { createThread, deleteDiscordMessage, deleteDiscordThread, destroyDiscord, discord, getDiscordMessage, getDiscordThread, highlightDiscordAnswer, initDiscord, listDiscordMessages, listDiscordThreads, listForumTags, makeThreadName, notifyDiscordUser, pushDiscordMessage, registerDiscordCommands, renameDiscordThread, setDiscordThreadArchived, setDiscordThreadLocked, setDiscordReaction, setDiscordThreadTags, tombstoneDiscordMessage, tombstoneDiscordThread, toThreadMessage, unhighlightDiscordAnswer, updateDiscordMessage, updateDiscordStarterMessage, type ThreadMessage } from "./discord"
 import logger from "./config/logger"
-import { createDiscussion, fetchRepoCategoryIdByName, listGithubDiscussions, listGithubComments, loadGithub, pushGithubComment, updateDiscussion, type GithubDiscussion } from "./github"
+import store from "./config/store"
+import config, { describeConfig } from "./config/config"
+import mappings, { getMappingByCategory, getMappingByForum, getMappingsByRepository, type Mapping } from "./config/mappings"
+import { addGithubLabels, createDiscussion, deleteGithubComment, deleteGithubDiscussion, fromWebhookComment, fromWebhookDiscussion, getGithubDiscussion, getGithubDiscussionByNumber, listGithubComments, listGithubDiscussions, listGithubLabels, listGithubReactions, loadGithub, markGithubCommentAsAnswer, pushGithubComment, removeGithubLabels, setGithubDiscussionClosed, setGithubDiscussionLocked, setGithubReaction, tombstoneGithubComment, tombstoneGithubDiscussion, updateDiscussion, updateGithubComment, updateGithubDiscussionBody, updateGithubDiscussionTitle, type GithubComment, type GithubDiscussion } from "./github"
+import type { Platform } from "./store/store-interface"
+import { reconcile } from "./reconcile"
+import { computeLabelChanges, computeThreadTags } from "./tags"
+import { githubWebhook } from "./webhook"
+import { commands, handleAccountCommand, isModerator, MODERATOR_COMMANDS } from "./commands"
+import { verifyLinkCode } from "./identity"
+import { canMirrorToGithub, isBlocked, isDiscordOnly, isGithubOnly } from "./filters"
+import { isMirrored } from "./origin"
+import { computeReactionChanges, emojiToReaction } from "./reactions"
+import { enqueue, listJobs, retryDeadJobs, runExclusive, startQueue, stopQueue, type JobHandler } from "./queue"
 
-// Configuration (with environment variable fallbacks)
-const FORUM_CHANNEL_ID = process.env.FORUM_CHANNEL_ID || "1375527112521552003"
-const CATEGORY_NAME = process.env.CATEGORY_NAME || "General"
-const DRY_RUN = process.env.DRY_RUN === "true" || false
+// Configuration
+const DRY_RUN = config.dryRun
+const ON_GITHUB_DELETE = config.deletion.onGithubDelete
+const ON_DISCORD_DELETE = config.deletion.onDiscordDelete
 
 const app = express();
-app.use(bodyParser.json());
 
+// attachments downloaded from Discord are linked from GitHub
+if (config.attachments.storage === "local") {
+	app.use("/attachments", express.static(config.attachments.directory));
+}
 
 // GitHub → Discord (discussion and comment webhooks)
-app.all("/webhook", async (req: express.Request, res: express.Response) => {
+// the signature is computed on the raw body, the JSON is parsed once it is verified
+app.post("/webhook", bodyParser.raw({ type: "application/json" }), githubWebhook(config.github.webhookSecret), async (req: express.Request, res: express.Response) => {
 	try {
 		const event = req.headers["x-github-event"];
-
-		// Handle new discussions
-		if (event === "discussion" && req.body.action === "created") {
-			logger.info("Received discussion creation event");
-			await syncDiscussionOnDiscord(req.body.discussion);
+		if (event !== "discussion" && event !== "discussion_comment") {
+			res.sendStatus(200);
+			return;
 		}
 
-		// Handle new discussion comments
-		else if (event === "discussion_comment" && req.body.action === "created") {
-			logger.info("Received discussion comment event");
-			await syncDiscussionOnDiscord(req.body.discussion);
+		// route by repository, a single webhook can be shared by several repositories (ex: organization webhook)
+		const repository: string = req.body.repository.full_name;
+		if (getMappingsByRepository(repository).length === 0) {
+			logger.info(`Ignoring event from repository ${repository} not synced`);
+			res.sendStatus(200);
+			return;
 		}
 
+		// GitHub does not wait for long, the event is handled by the queue
+		const { action, discussion, comment, answer, old_answer, changes } = req.body;
+		const key = store.getThreadLinkByDiscussion(discussion.node_id)?.threadId ?? discussion.node_id;
+		enqueue("github-event", key, { event, body: { action, discussion, comment, answer, old_answer, changes, repository: { full_name: repository } } });
 		res.sendStatus(200);
 	} catch (e) {
 		logger.error(`Webhook handler error: ${e}`);
@@ -42,11 +71,93 @@ app.all("/webhook", async (req: express.Request, res: express.Response) => {
 	}
 });
 
+/**
+ * Handle a discussion or comment webhook event
+ *
+ * @param body the payload of the event
+ */
+async function handleGithubEvent(event: string, body: any) {
+	const discussion = fromWebhookDiscussion(body.discussion, body.repository);
+	if (isDiscussionIgnored(discussion)) {
+		logger.info(`Ignoring event of discussion #${discussion.number}, its mirroring was stopped`);
+		return;
+	}
+
+	// Handle new discussions
+	if (event === "discussion" && body.action === "created") {
+		logger.info("Received discussion creation event");
+		await syncDiscussionOnDiscord(discussion);
+	}
+
+	// Handle new discussion comments
+	else if (event === "discussion_comment" && body.action === "created") {
+		logger.info("Received discussion comment event");
+		const comment = fromWebhookComment(body.comment);
+		if (isMirrored(comment)) {
+			logger.info(`Ignoring comment ${comment.id} mirrored from Discord`);
+		} else if (!await syncIdentityLink(comment)) {
+			await syncDiscussionOnDiscord(discussion);
+		}
+	}
+
+	// the content of a GitHub only discussion stays on GitHub, its thread was linked before the label was added
+	else if (body.action === "edited" && isGithubOnly(await withLabels(discussion))) {
+		logger.info(`Ignoring edition in discussion #${discussion.number}, it is marked as GitHub only`);
+	}
+
+	// Handle edited discussions
+	else if (event === "discussion" && body.action === "edited") {
+		logger.info("Received discussion edition event");
+		await syncDiscussionEditOnDiscord(discussion, body.changes ?? {});
+	}
+
+	// Handle edited discussion comments
+	else if (event === "discussion_comment" && body.action === "edited") {
+		logger.info("Received discussion comment edition event");
+		await syncCommentEditOnDiscord(fromWebhookComment(body.comment));
+	}
+
+	// Handle label changes
+	else if (event === "discussion" && (body.action === "labeled" || body.action === "unlabeled")) {
+		logger.info(`Received discussion ${body.action} event`);
+		await syncDiscussionTagsOnDiscord(discussion);
+	}
+
+	// Handle answer changes
+	else if (event === "discussion" && (body.action === "answered" || body.action === "unanswered")) {
+		logger.info(`Received discussion ${body.action} event`);
+		await syncDiscussionTagsOnDiscord(discussion);
+		if (body.action === "answered") {
+			await syncAnswerOnDiscord(fromWebhookComment(body.answer), true);
+		} else {
+			await syncAnswerOnDiscord(fromWebhookComment(body.old_answer), false);
+		}
+	}
+
+	// Handle state changes
+	else if (event === "discussion" && ["closed", "reopened", "locked", "unlocked"].includes(body.action)) {
+		logger.info(`Received discussion ${body.action} event`);
+		await syncDiscussionStateOnDiscord(discussion);
+	}
+
+	// Handle deleted discussions
+	else if (event === "discussion" && body.action === "deleted") {
+		logger.info("Received discussion deletion event");
+		await syncDiscussionDeletionOnDiscord(discussion);
+	}
+
+	// Handle deleted discussion comments
+	else if (event === "discussion_comment" && body.action === "deleted") {
+		logger.info("Received discussion comment deletion event");
+		await syncCommentDeletionOnDiscord(fromWebhookComment(body.comment));
+	}
+}
+
 // Discord → GitHub (new thread creates org discussion)
 discord.on("threadCreate", async (thread: ThreadChannel) => {
 	return;
 	try {
-		if (thread.parentId !== FORUM_CHANNEL_ID) return;
+		if (!getMappingByForum(thread.parentId)) return;
 
 		const messages = await thread.messages.fetch({ limit: 1 });
 		const msg = messages.first();
@@ -73,65 +184,344 @@ discord.on("messageCreate", async (message: Message) => {
 		}
 
 		const thread = message.channel as AnyThreadChannel;
-		if (thread.parentId !== FORUM_CHANNEL_ID) {
-			logger.info("thread not in forum channel");
+		if (!getMappingByForum(thread.parentId)) {
+			logger.info("thread not in a synced forum channel");
 			return;
 		}
 
-		// Ignore bot messages and messages that appear to be synced from GitHub
-		if (message.author.bot || message.content.includes("💬 **")) {
+		// Ignore the messages mirrored from GitHub and the messages of other bots
+		if (isMirrored(toThreadMessage(message)) || message.author.bot || store.isThreadIgnored(thread.id)) {
 			logger.info("message ignored");
 			return;
 		}
 
-		await syncThreadOnGitHub(thread);
+		// a burst of messages is mirrored by a single sync
+		enqueue("sync-thread", thread.id, { threadId: thread.id }, true);
 	} catch (e: any) {
 		logger.error(`Discord messageCreate error: ${e.message}`);
-		try {
-			await message.reply("Failed to sync to GitHub: " + e.message);
-		} catch (replyError) {
-			logger.error(`Failed to send error reply: ${replyError}`);
+	}
+});
+
+// Discord → GitHub (sync message edits)
+discord.on("messageUpdate", async (oldMessage: Message | PartialMessage, newMessage: Message | PartialMessage) => {
+	try {
+		const message = newMessage.partial ? await newMessage.fetch() : newMessage;
+		if (!message.channel.isThread() || !getMappingByForum(message.channel.parentId) || store.isThreadIgnored(message.channel.id)) {
+			return;
+		}
+
+		// Ignore bot messages and updates not touching the content (ex: embeds being resolved)
+		if (isMirrored(toThreadMessage(message)) || message.author.bot || (!oldMessage.partial && oldMessage.content === message.content && oldMessage.attachments.size === message.attachments.size)) {
+			return;
+		}
+
+		enqueue("sync-message-edit", message.channel.id, { threadId: message.channel.id, messageId: message.id });
+	} catch (e: any) {
+		logger.error(`Discord messageUpdate error: ${e.message}`);
+	}
+});
+
+// Discord → GitHub (sync thread tags to discussion labels, and archived/locked state)
+discord.on("threadUpdate", async (oldThread: AnyThreadChannel, newThread: AnyThreadChannel) => {
+	try {
+		const mapping = getMappingByForum(newThread.parentId);
+		if (!mapping || store.isThreadIgnored(newThread.id)) return;
+
+		const oldTags = oldThread.appliedTags;
+		const newTags = newThread.appliedTags;
+		if (oldTags.length !== newTags.length || !oldTags.every((it) => newTags.includes(it))) {
+			enqueue("sync-thread-tags", newThread.id, { threadId: newThread.id, oldTags, newTags });
 		}
+
+		if (oldThread.name !== newThread.name) {
+			enqueue("sync-thread-rename", newThread.id, { threadId: newThread.id });
+		}
+
+		const stateChanged = oldThread.archived !== newThread.archived || oldThread.locked !== newThread.locked;
+		if (stateChanged && !updatingThreads.has(newThread.id)) {
+			enqueue("sync-thread-state", newThread.id, { threadId: newThread.id });
+		}
+	} catch (e: any) {
+		logger.error(`Discord threadUpdate error: ${e.message}`);
 	}
 });
 
-async function findThreadOnGitHub(thread: AnyThreadChannel) {
-	// find the discussion that the first message contains the thread ID
-	const discussion = (await listGithubDiscussions())
+// Discord → GitHub (the thread owner marks the answer with a reaction, and the reactions are mirrored)
+discord.on("messageReactionAdd", async (partialReaction: MessageReaction | PartialMessageReaction, user: User | PartialUser) => {
+	try {
+		const isAnswer = partialReaction.emoji.name === config.answerEmoji;
+		if (user.bot || (!isAnswer && !isMirroredReaction(partialReaction))) return;
+
+		const reaction = partialReaction.partial ? await partialReaction.fetch() : partialReaction;
+		const thread = reaction.message.channel;
+		if (!thread.isThread() || !getMappingByForum(thread.parentId) || store.isThreadIgnored(thread.id)) return;
+
+		if (isAnswer && thread.ownerId === user.id) {
+			enqueue("sync-answer", thread.id, { messageId: reaction.message.id });
+		}
+		if (isMirroredReaction(reaction)) {
+			enqueue("sync-reaction", thread.id, { threadId: thread.id, messageId: reaction.message.id, emoji: reaction.emoji.name });
+		}
+	} catch (e: any) {
+		logger.error(`Discord messageReactionAdd error: ${e.message}`);
+	}
+});
+
+// Discord → GitHub (sync reaction removals)
+discord.on("messageReactionRemove", async (partialReaction: MessageReaction | PartialMessageReaction, user: User | PartialUser) => {
+	try {
+		if (user.bot || !isMirroredReaction(partialReaction)) return;
+
+		const thread = partialReaction.message.channel;
+		if (!thread.isThread() || !getMappingByForum(thread.parentId) || store.isThreadIgnored(thread.id)) return;
+
+		enqueue("sync-reaction", thread.id, { threadId: thread.id, messageId: partialReaction.message.id, emoji: partialReaction.emoji.name });
+	} catch (e: any) {
+		logger.error(`Discord messageReactionRemove error: ${e.message}`);
+	}
+});
+
+// Discord slash commands
+discord.on("interactionCreate", async (interaction: Interaction) => {
+	if (!interaction.isChatInputCommand()) return;
+	try {
+		if (interaction.commandName === "account") {
+			await handleAccountCommand(interaction);
+		} else if (MODERATOR_COMMANDS.includes(interaction.commandName)) {
+			await handleModeratorCommand(interaction);
+		}
+	} catch (e: any) {
+		logger.error(`Error handling command ${interaction.commandName}: ${e.message}`);
+		const content = "Something went wrong, please try again later.";
+		if (interaction.deferred) {
+			await interaction.editReply(content).catch(() => undefined);
+		} else if (!interaction.replied) {
+			await interaction.reply({ content, flags: MessageFlags.Ephemeral }).catch(() => undefined);
+		}
+	}
+});
+
+// Discord → GitHub (sync message deletions)
+discord.on("messageDelete", async (message: Message | PartialMessage) => {
+	try {
+		if (store.isThreadIgnored(message.channelId)) return;
+		// every deletion the bot can see is notified, only the mirrored messages go through the queue
+		const link = store.getMessageLinkByMessage(message.id);
+		if (!link || link.deletedOn) return;
+
+		enqueue("sync-message-deletion", message.channelId, { messageId: message.id });
+	} catch (e: any) {
+		logger.error(`Discord messageDelete error: ${e.message}`);
+	}
+});
+
+// Discord → GitHub (sync thread deletions)
+discord.on("threadDelete", async (thread: AnyThreadChannel) => {
+	try {
+		if (!getMappingByForum(thread.parentId)) return;
+
+		enqueue("sync-thread-deletion", thread.id, { threadId: thread.id });
+	} catch (e: any) {
+		logger.error(`Discord threadDelete error: ${e.message}`);
+	}
+});
+
+/**
+ * the writes run by the queue, the payloads only hold IDs as the items are fetched again when the job is run
+ */
+const jobHandlers: Record<string, JobHandler> = {
+	"github-event": async ({ event, body }) => handleGithubEvent(event, body),
+	"sync-discussion": async ({ discussionId }) => {
+		const discussion = await getGithubDiscussion(discussionId);
+		if (discussion) {
+			await syncDiscussionOnDiscord(discussion);
+		}
+	},
+	"sync-thread": async ({ threadId }) => {
+		const thread = await getDiscordThread(threadId);
+		if (thread) {
+			await syncThreadOnGitHub(thread);
+		}
+	},
+	"sync-message-edit": async ({ threadId, messageId }) => {
+		const thread = await getDiscordThread(threadId);
+		const message = thread && await getDiscordMessage(thread, messageId);
+		if (!thread || !message) {
+			return;
+		}
+		// the starter message of a forum post shares the thread ID
+		if (message.id === thread.id) {
+			await syncStarterEditOnGitHub(thread, message);
+		} else {
+			await syncMessageEditOnGitHub(thread, message);
+		}
+	},
+	"sync-thread-tags": async ({ threadId, oldTags, newTags }) => {
+		const thread = await getDiscordThread(threadId);
+		const mapping = getMappingByForum(thread?.parentId ?? null);
+		if (thread && mapping) {
+			await syncTagsOnGitHub(mapping, thread, oldTags, newTags);
+		}
+	},
+	"sync-thread-rename": async ({ threadId }) => {
+		const thread = await getDiscordThread(threadId);
+		if (thread) {
+			await syncThreadRenameOnGitHub(thread);
+		}
+	},
+	"sync-thread-state": async ({ threadId }) => {
+		const thread = await getDiscordThread(threadId);
+		if (thread) {
+			await syncThreadStateOnGitHub(thread);
+		}
+	},
+	"sync-answer": async ({ messageId }) => syncAnswerOnGitHub(messageId),
+	"sync-reaction": async ({ threadId, messageId, emoji }) => {
+		const thread = await getDiscordThread(threadId);
+		if (thread) {
+			await syncReactionOnGitHub(thread, messageId, emoji);
+		}
+	},
+	"sync-reactions": async ({ threadId }) => {
+		const link = store.getThreadLinkByThread(threadId);
+		const thread = await getDiscordThread(threadId);
+		const discussion = link && !link.deletedOn ? await getGithubDiscussion(link.discussionId) : undefined;
+		if (thread && discussion) {
+			await syncReactions(thread, discussion);
+		}
+	},
+	"sync-message-deletion": async ({ messageId }) => syncMessageDeletionOnGitHub(messageId),
+	"sync-thread-deletion": async ({ threadId }) => syncThreadDeletionOnGitHub(threadId),
+};
+
+/**
+ * @returns whether the thread is a post of the forum of the mapping, a marker or a command must never link a thread of another channel
+ */
+function isThreadOfMapping(thread: AnyThreadChannel, mapping: Mapping) {
+	return thread.parentId === mapping.forumChannelId;
+}
+
+async function findThreadOnGitHub(mapping: Mapping, thread: AnyThreadChannel) {
+	const link = store.getThreadLinkByThread(thread.id);
+	if (link) {
+		return getGithubDiscussion(link.discussionId);
+	}
+	if (!isThreadOfMapping(thread, mapping)) {
+		return undefined;
+	}
+
+	// fallback on the legacy marker for discussions linked before the store existed
+	const discussion = (await listGithubDiscussions(mapping))
 		.find((it) => it.body.includes(`<!-- Discord:${thread.id} -->`));
+	if (discussion) {
+		store.linkThread({ threadId: thread.id, discussionId: discussion.id, discussionNumber: discussion.number, origin: guessOrigin(discussion) });
+	}
 
 	return discussion;
 }
 
-async function findDiscussionOnDiscord(discussion: GithubDiscussion) {
-	const threads = await listDiscordThreads();
+async function findDiscussionOnDiscord(mapping: Mapping, discussion: GithubDiscussion) {
+	const link = store.getThreadLinkByDiscussion(discussion.id);
+	if (link) {
+		return getDiscordThread(link.threadId);
+	}
+
+	// fallback on the legacy marker for discussions linked before the store existed
 	// <!-- Discord:1375561398364668025 -->
 	const id = /<!-- Discord:(\d+) -->/g.exec(discussion.body)?.[1];
-	return threads.find((it) => it.id === id);
+	if (!id) {
+		return undefined;
+	}
+	// the thread was moved to another discussion with `/link`, the marker is outdated
+	const other = store.getThreadLinkByThread(id);
+	if (other && other.discussionId !== discussion.id) {
+		return undefined;
+	}
+	// anyone can write a marker, only the posts of the forum of the discussion can be linked
+	const thread = await getDiscordThread(id);
+	if (!thread || !isThreadOfMapping(thread, mapping)) {
+		return undefined;
+	}
+	store.linkThread({ threadId: thread.id, discussionId: discussion.id, discussionNumber: discussion.number, origin: guessOrigin(discussion) });
+	return thread;
+}
+
+/**
+ * @returns whether the mirroring of the thread of the discussion was stopped by a moderator
+ */
+function isDiscussionIgnored(discussion: GithubDiscussion) {
+	// unlinked discussions still hold the marker of their former thread
+	const threadId = store.getThreadLinkByDiscussion(discussion.id)?.threadId ?? /<!-- Discord:(\d+) -->/.exec(discussion.body)?.[1];
+	return !!threadId && store.isThreadIgnored(threadId);
+}
+
+/**
+ * @returns whether the former thread of an unlinked discussion was moved to another discussion with `/link`
+ */
+function isDiscussionMoved(discussion: GithubDiscussion) {
+	if (store.getThreadLinkByDiscussion(discussion.id)) {
+		return false;
+	}
+	// the discussion still holds the marker of its former thread
+	const threadId = /<!-- Discord:(\d+) -->/.exec(discussion.body)?.[1];
+	const link = threadId && store.getThreadLinkByThread(threadId);
+	return !!link && link.discussionId !== discussion.id;
+}
+
+/**
+ * discussions created from Discord start with the attribution header of their starter message,
+ * the marker of the thread does not tell as older versions added it to the discussions started on GitHub too
+ */
+function guessOrigin(discussion: GithubDiscussion): Platform {
+	return /^💬 \*\*.+?\*\* on \[Discord\]\(/.test(discussion.body) ? "discord" : "github";
 }
 
 /**
  * Sync a discussion from GitHub to Discord.
  */
 async function syncDiscussionOnDiscord(discussion: GithubDiscussion) {
-	if (discussion.category && discussion.category.name !== CATEGORY_NAME) {
-		logger.info('skipping discussion not in the correct category')
+	discussion = await withLabels(discussion)
+	const mapping = getMappingByCategory(discussion.repository.nameWithOwner, discussion.category.name)
+	if (!mapping) {
+		logger.info('skipping discussion not in a synced category')
+		return
+	}
+	if (store.getThreadLinkByDiscussion(discussion.id)?.deletedOn) {
+		logger.info('skipping discussion deleted on one side')
+		return
+	}
+	if (isDiscussionIgnored(discussion)) {
+		logger.info('skipping discussion ignored by a moderator')
 		return
 	}
-	let thread = await findDiscussionOnDiscord(discussion);
+	if (isDiscussionMoved(discussion)) {
+		logger.info('skipping discussion whose thread was moved to another discussion')
+		return
+	}
+	if (isGithubOnly(discussion)) {
+		logger.info('skipping discussion marked as GitHub only')
+		return
+	}
+	let thread = await findDiscussionOnDiscord(mapping, discussion);
 	if (!thread) {
+		if (isBlocked(discussion.body, `discussion #${discussion.number}`)) {
+			return
+		}
 		logger.info('Creating thread on Discord')
 		if (DRY_RUN) {
 			logger.info('Dry run: Skipping creation of thread on Discord')
 			return;
 		}
-		const res = await createThread(discussion.author.login, discussion.number, discussion.title, discussion.body);
+		const tags = computeThreadTags(await withLabels(discussion), await listForumTags(mapping), [], await listGithubLabels(mapping));
+		const res = await createThread(mapping, discussion, tags);
 		if (!res) {
-			logger.alert(`Failed to create thread on Discord forum ${FORUM_CHANNEL_ID}: ${discussion.title}`);
+			logger.alert(`Failed to create thread on Discord forum ${mapping.forumChannelId}: ${discussion.title}`);
 			return;
 		}
 		await updateDiscussion(discussion, res.id);
 		thread = res;
+	} else {
+		await syncTagsOnDiscord(mapping, thread, discussion);
 	}
 
 	await syncMessages(thread, discussion);
@@ -141,23 +531,692 @@ async function syncDiscussionOnDiscord(discussion: GithubDiscussion) {
  * Sync a thread from Discord to GitHub.
  */
 async function syncThreadOnGitHub(thread: AnyThreadChannel) {
-	let discussion = await findThreadOnGitHub(thread);
+	const mapping = getMappingByForum(thread.parentId)
+	if (!mapping) {
+		logger.info('skipping thread not in a synced forum channel')
+		return
+	}
+	if (store.getThreadLinkByThread(thread.id)?.deletedOn) {
+		logger.info('skipping thread deleted on one side')
+		return
+	}
+	if (store.isThreadIgnored(thread.id)) {
+		logger.info('skipping thread ignored by a moderator')
+		return
+	}
+	if (isDiscordOnly(thread, await listForumTags(mapping))) {
+		logger.info('skipping thread marked as Discord only')
+		return
+	}
+	let discussion = await findThreadOnGitHub(mapping, thread);
 	if (!discussion) {
+		const starter = (await thread.messages.fetch()).reverse().at(0)!;
+		if (!canMirrorToGithub(toThreadMessage(starter))) {
+			return
+		}
 		logger.info('Creating discussion on GitHub')
 		if (DRY_RUN) {
 			logger.info('Dry run: Skipping creation of discussion on GitHub')
 			return;
 		}
-		discussion = await createDiscussion(thread, (await thread.messages.fetch()).reverse().at(0)!);
+		discussion = await createDiscussion(mapping, thread, starter);
 		if (!discussion) {
-			logger.alert(`Failed to create discussion on GitHub category ${CATEGORY_NAME}: ${thread.name}`);
+			logger.alert(`Failed to create discussion on GitHub category ${mapping.categoryName}: ${thread.name}`);
 			return;
 		}
+		// the tags picked when the post was created
+		await syncTagsOnGitHub(mapping, thread, [], thread.appliedTags);
 	}
 
 	await syncMessages(thread, discussion);
 }
 
+/**
+ * Whether the Discord only tag of a thread stops its messages from being mirrored on GitHub
+ */
+async function isThreadDiscordOnly(thread: AnyThreadChannel) {
+	const mapping = getMappingByForum(thread.parentId);
+	return !!mapping && isDiscordOnly(thread, await listForumTags(mapping));
+}
+
+/**
+ * labels are not part of the webhook payloads, fetch them when missing
+ */
+async function withLabels(discussion: GithubDiscussion): Promise<GithubDiscussion> {
+	if (discussion.labels) {
+		return discussion
+	}
+	return (await getGithubDiscussion(discussion.id)) ?? discussion
+}
+
+/**
+ * Sync the labels and answered state of a discussion to the tags of its thread.
+ */
+async function syncTagsOnDiscord(mapping: Mapping, thread: AnyThreadChannel, discussion: GithubDiscussion) {
+	const tags = computeThreadTags(await withLabels(discussion), await listForumTags(mapping), thread.appliedTags, await listGithubLabels(mapping));
+	if (tags.length === thread.appliedTags.length && tags.every((it) => thread.appliedTags.includes(it))) {
+		return
+	}
+	if (DRY_RUN) {
+		logger.info('Dry run: Skipping update of thread tags on Discord')
+		return
+	}
+	await setDiscordThreadTags(thread, tags);
+}
+
+/**
+ * Sync a change of the tags of a thread to the labels of its discussion.
+ */
+async function syncTagsOnGitHub(mapping: Mapping, thread: AnyThreadChannel, oldTags: Array<string>, newTags: Array<string>) {
+	const link = store.getThreadLinkByThread(thread.id);
+	if (!link || link.deletedOn) {
+		return
+	}
+	const discussion = await getGithubDiscussion(link.discussionId);
+	if (!discussion) {
+		return
+	}
+	const { add, remove } = computeLabelChanges(oldTags, newTags, await listForumTags(mapping), discussion, await listGithubLabels(mapping));
+	if (add.length === 0 && remove.length === 0) {
+		return
+	}
+	if (DRY_RUN) {
+		logger.info('Dry run: Skipping update of discussion labels on GitHub')
+		return
+	}
+	if (add.length > 0) {
+		await addGithubLabels(discussion, add);
+	}
+	if (remove.length > 0) {
+		await removeGithubLabels(discussion, remove);
+	}
+}
+
+/**
+ * Sync the labels and answered state of a discussion from GitHub to Discord.
+ */
+async function syncDiscussionTagsOnDiscord(discussion: GithubDiscussion) {
+	const mapping = getMappingByCategory(discussion.repository.nameWithOwner, discussion.category.name);
+	const link = store.getThreadLinkByDiscussion(discussion.id);
+	if (!mapping || !link || link.deletedOn) {
+		return
+	}
+	const thread = await getDiscordThread(link.threadId);
+	if (!thread) {
+		return
+	}
+	await syncTagsOnDiscord(mapping, thread, discussion);
+}
+
+/**
+ * threads whose state is being changed by the bot, those changes must not be mirrored back
+ * (sending the notice temporarily unarchives the thread)
+ */
+const updatingThreads = new Set<string>();
+
+/**
+ * Sync the closed/locked state of a discussion to the archived/locked state of its thread.
+ */
+async function syncDiscussionStateOnDiscord(discussion: GithubDiscussion) {
+	const link = store.getThreadLinkByDiscussion(discussion.id);
+	if (!link || link.deletedOn) {
+		return
+	}
+	const thread = await getDiscordThread(link.threadId);
+	if (!thread) {
+		return
+	}
+	const url = discussion.url;
+	if (DRY_RUN) {
+		logger.info('Dry run: Skipping update of thread state on Discord')
+		return
+	}
+	updatingThreads.add(thread.id);
+	try {
+		// the lock is changed first as the notice unarchives the thread
+		if (thread.locked !== discussion.locked) {
+			await setDiscordThreadLocked(thread, discussion.locked, discussion.locked
+				? `🔒 This discussion was locked on [GitHub](<${url}>), replies are disabled.`
+				: `🔓 This discussion was unlocked on [GitHub](<${url}>).`
+			);
+		}
+		if (thread.archived !== discussion.closed) {
+			await setDiscordThreadArchived(thread, discussion.closed, discussion.closed
+				? `📁 This discussion was closed on [GitHub](<${url}>), new replies will reopen it.`
+				: `📂 This discussion was reopened on [GitHub](<${url}>).`
+			);
+		}
+	} finally {
+		// the gateway events may arrive after the API responses
+		setTimeout(() => updatingThreads.delete(thread.id), 5000);
+	}
+}
+
+/**
+ * Sync the archived/locked state of a thread to the closed/locked state of its discussion.
+ */
+async function syncThreadStateOnGitHub(thread: AnyThreadChannel) {
+	const link = store.getThreadLinkByThread(thread.id);
+	if (!link || link.deletedOn) {
+		return
+	}
+	const discussion = await getGithubDiscussion(link.discussionId);
+	if (!discussion) {
+		return
+	}
+	const url = `https://discord.com/channels/${thread.guild.id}/${thread.id}`;
+	const locked = thread.locked ?? false;
+	const archived = thread.archived ?? false;
+	if (DRY_RUN) {
+		logger.info('Dry run: Skipping update of discussion state on GitHub')
+		return
+	}
+	if (discussion.locked !== locked) {
+		await setGithubDiscussionLocked(discussion, locked, locked
+			? `🔒 The [Discord thread](${url}) of this discussion was locked by a moderator.`
+			: `🔓 The [Discord thread](${url}) of this discussion was unlocked.`
+		);
+	}
+	if (config.closeOnArchive && discussion.closed !== archived) {
+		await setGithubDiscussionClosed(discussion, archived, archived
+			? `📁 The [Discord thread](${url}) of this discussion was archived.`
+			: `📂 The [Discord thread](${url}) of this discussion was reopened.`
+		);
+	}
+}
+
+/**
+ * Sync the answer of a Q&A discussion from GitHub to Discord.
+ *
+ * @param answer the comment marked (or unmarked) as the answer
+ * @param answered whether the comment is now the answer
+ */
+async function syncAnswerOnDiscord(answer: GithubComment, answered: boolean) {
+	const link = store.getMessageLinkByComment(answer.id);
+	if (!link || link.deletedOn) {
+		logger.info('skipping answer not mirrored on Discord')
+		return
+	}
+	const thread = await getDiscordThread(link.threadId);
+	if (!thread) {
+		return
+	}
+	if (DRY_RUN) {
+		logger.info('Dry run: Skipping answer highlight on Discord')
+		return
+	}
+	if (answered) {
+		await highlightDiscordAnswer(thread, link.messageId);
+	} else {
+		await unhighlightDiscordAnswer(thread, link.messageId);
+	}
+}
+
+/**
+ * Sync the answer picked on Discord to the Q&A discussion.
+ */
+async function syncAnswerOnGitHub(messageId: string) {
+	const link = store.getMessageLinkByMessage(messageId);
+	if (!link || link.deletedOn) {
+		logger.info('skipping answer not mirrored on GitHub')
+		return
+	}
+	// the answer emoji is a common reaction, GitHub rejects the answers outside of the Q&A categories
+	const threadLink = store.getThreadLinkByThread(link.threadId);
+	const discussion = threadLink && !threadLink.deletedOn ? await getGithubDiscussion(threadLink.discussionId) : undefined;
+	if (!discussion?.category.isAnswerable) {
+		logger.info('skipping answer in a discussion category without answers')
+		return
+	}
+	if (DRY_RUN) {
+		logger.info('Dry run: Skipping answer marking on GitHub')
+		return
+	}
+	await markGithubCommentAsAnswer(link.commentId);
+}
+
+/**
+ * @returns whether the reaction is one of the reactions mirrored on GitHub
+ */
+function isMirroredReaction(reaction: MessageReaction | PartialMessageReaction) {
+	return config.reactions.enabled && emojiToReaction(reaction.emoji.name) !== undefined;
+}
+
+/**
+ * Sync a Discord reaction to the mirrored comment (or discussion for the starter message).
+ *
+ * The bot reacts on GitHub as long as someone reacted on Discord, whatever the number of users.
+ */
+async function syncReactionOnGitHub(thread: AnyThreadChannel, messageId: string, emoji: string) {
+	// the starter message of a forum post shares the thread ID and is mirrored as the discussion body
+	const link = messageId === thread.id ? store.getThreadLinkByThread(thread.id) : store.getMessageLinkByMessage(messageId);
+	const content = emojiToReaction(emoji);
+	if (!link || link.deletedOn || !content) {
+		logger.info('skipping reaction on a message not mirrored on GitHub')
+		return
+	}
+	if (await isThreadDiscordOnly(thread)) {
+		logger.info('skipping reaction in a thread marked as Discord only')
+		return
+	}
+	const subjectId = "commentId" in link ? link.commentId : link.discussionId;
+	// the reaction is gone once its last user removed it
+	const reaction = (await getDiscordMessage(thread, messageId))?.reactions.resolve(emoji);
+	if (DRY_RUN) {
+		logger.info('Dry run: Skipping reaction on GitHub')
+		return
+	}
+	await setGithubReaction(subjectId, content, !!reaction && reaction.count - (reaction.me ? 1 : 0) > 0);
+}
+
+/**
+ * Sync the reactions of every mirrored message of a thread, in both directions.
+ *
+ * GitHub does not send webhook events for reactions, they are checked on each sync and polled.
+ *
+ * @param messages the messages of the thread, when already loaded
+ */
+async function syncReactions(thread: AnyThreadChannel, discussion: GithubDiscussion, messages?: Array<ThreadMessage>) {
+	if (!config.reactions.enabled) {
+		return
+	}
+	const discordOnly = await isThreadDiscordOnly(thread);
+	const githubOnly = isGithubOnly(await withLabels(discussion));
+	messages ??= await listDiscordMessages(thread);
+	// the starter message of a forum post shares the thread ID
+	const starter = await getDiscordMessage(thread, thread.id);
+	const pairs = store.listMessageLinks(thread.id)
+		.filter((it) => !it.deletedOn)
+		.map((it) => ({ messageId: it.messageId, subjectId: it.commentId }));
+	if (starter) {
+		pairs.push({ messageId: starter.id, subjectId: discussion.id });
+	}
+
+	const reactions = await listGithubReactions(pairs.map((it) => it.subjectId));
+	for (const { messageId, subjectId } of pairs) {
+		const message = messageId === starter?.id ? toThreadMessage(starter) : messages.find((it) => it.id === messageId);
+		const groups = reactions.get(subjectId);
+		if (!message || !groups) {
+			continue
+		}
+
+		const changes = computeReactionChanges(message.reactions, groups);
+		if (discordOnly) {
+			changes.github = [];
+		}
+		if (githubOnly) {
+			changes.discord = [];
+		}
+		if (changes.discord.length + changes.github.length === 0) {
+			continue
+		}
+		if (DRY_RUN) {
+			logger.info(`Dry run: Skipping ${changes.discord.length + changes.github.length} reaction change(s) of message ${messageId}`)
+			continue
+		}
+		for (const { emoji, reacted } of changes.discord) {
+			await setDiscordReaction(thread, messageId, emoji, reacted);
+		}
+		for (const { content, reacted } of changes.github) {
+			await setGithubReaction(subjectId, content, reacted);
+		}
+	}
+}
+
+/**
+ * Check the reactions of the threads still active, GitHub does not notify the reactions
+ */
+async function pollReactions() {
+	for (const link of store.listThreadLinks()) {
+		if (link.deletedOn || store.isThreadIgnored(link.threadId)) {
+			continue
+		}
+		try {
+			const thread = await getDiscordThread(link.threadId);
+			if (thread && !thread.archived) {
+				enqueue("sync-reactions", thread.id, { threadId: thread.id }, true);
+			}
+		} catch (e: any) {
+			logger.error(`Reactions polling error on thread ${link.threadId}: ${e.message}`);
+		}
+	}
+}
+
+/**
+ * Sync the edition of a discussion title and body from GitHub to Discord.
+ *
+ * @param changes the previous values of the edited fields
+ */
+async function syncDiscussionEditOnDiscord(discussion: GithubDiscussion, changes: { title?: unknown, body?: unknown }) {
+	const link = store.getThreadLinkByDiscussion(discussion.id);
+	if (!link || link.deletedOn) {
+		return
+	}
+	const thread = await getDiscordThread(link.threadId);
+	if (!thread) {
+		return
+	}
+	if (DRY_RUN) {
+		logger.info('Dry run: Skipping update of thread on Discord')
+		return
+	}
+	// the title belongs to both sides, the body only to the side the conversation started on
+	if (changes.title && thread.name !== makeThreadName(discussion.title)) {
+		await renameDiscordThread(thread, discussion.title);
+	}
+	if (changes.body && link.origin === "github" && !isBlocked(discussion.body, `edition of discussion #${discussion.number}`)) {
+		await updateDiscordStarterMessage(thread, discussion);
+	}
+}
+
+/**
+ * Sync the edition of a comment from GitHub to Discord.
+ */
+async function syncCommentEditOnDiscord(comment: GithubComment) {
+	const link = store.getMessageLinkByComment(comment.id);
+	if (!link || link.origin !== "github") {
+		logger.info('skipping edition of a comment not mirrored from GitHub')
+		return
+	}
+	if (isBlocked(comment.body, `edition of comment ${comment.id}`)) {
+		return
+	}
+	const thread = await getDiscordThread(link.threadId);
+	if (!thread) {
+		return
+	}
+	if (DRY_RUN) {
+		logger.info('Dry run: Skipping update of message on Discord')
+		return
+	}
+	await updateDiscordMessage(thread, link, comment);
+}
+
+/**
+ * Sync the edition of a message from Discord to GitHub.
+ */
+async function syncMessageEditOnGitHub(thread: AnyThreadChannel, message: Message) {
+	const link = store.getMessageLinkByMessage(message.id);
+	if (!link || link.origin !== "discord") {
+		logger.info('skipping edition of a message not mirrored from Discord')
+		return
+	}
+	if (await isThreadDiscordOnly(thread)) {
+		logger.info('skipping edition in a thread marked as Discord only')
+		return
+	}
+	if (!canMirrorToGithub(toThreadMessage(message))) {
+		return
+	}
+	if (DRY_RUN) {
+		logger.info('Dry run: Skipping update of comment on GitHub')
+		return
+	}
+	await updateGithubComment(thread, toThreadMessage(message), link.commentId);
+}
+
+/**
+ * Sync the edition of the starter message of a thread from Discord to GitHub.
+ */
+async function syncStarterEditOnGitHub(thread: AnyThreadChannel, message: Message) {
+	const link = store.getThreadLinkByThread(thread.id);
+	if (!link || link.deletedOn || link.origin !== "discord") {
+		logger.info('skipping edition of a starter message not mirrored from Discord')
+		return
+	}
+	if (await isThreadDiscordOnly(thread)) {
+		logger.info('skipping edition of a thread marked as Discord only')
+		return
+	}
+	if (!canMirrorToGithub(toThreadMessage(message))) {
+		return
+	}
+	const discussion = await getGithubDiscussion(link.discussionId);
+	if (!discussion) {
+		return
+	}
+	if (DRY_RUN) {
+		logger.info('Dry run: Skipping update of discussion on GitHub')
+		return
+	}
+	await updateGithubDiscussionBody(discussion, thread, message);
+}
+
+/**
+ * Sync the new name of a thread from Discord to GitHub.
+ */
+async function syncThreadRenameOnGitHub(thread: AnyThreadChannel) {
+	const link = store.getThreadLinkByThread(thread.id);
+	if (!link || link.deletedOn) {
+		return
+	}
+	const discussion = await getGithubDiscussion(link.discussionId);
+	// the thread name may be a truncated version of the title
+	if (!discussion || makeThreadName(discussion.title) === thread.name) {
+		return
+	}
+	if (DRY_RUN) {
+		logger.info('Dry run: Skipping rename of discussion on GitHub')
+		return
+	}
+	await updateGithubDiscussionTitle(discussion, thread.name);
+}
+
+/**
+ * Sync the deletion of a discussion from GitHub to Discord.
+ */
+async function syncDiscussionDeletionOnDiscord(discussion: GithubDiscussion) {
+	const link = store.getThreadLinkByDiscussion(discussion.id);
+	if (!link || link.deletedOn) {
+		return
+	}
+	store.markThreadDeleted(link.threadId, "github");
+	if (link.origin !== "github" || ON_GITHUB_DELETE === "ignore") {
+		return
+	}
+	const thread = await getDiscordThread(link.threadId);
+	if (!thread) {
+		return
+	}
+	if (DRY_RUN) {
+		logger.info('Dry run: Skipping deletion of thread on Discord')
+		return
+	}
+	if (ON_GITHUB_DELETE === "delete") {
+		await deleteDiscordThread(thread);
+	} else {
+		await tombstoneDiscordThread(thread);
+	}
+}
+
+/**
+ * Sync the deletion of a comment from GitHub to Discord.
+ */
+async function syncCommentDeletionOnDiscord(comment: GithubComment) {
+	const link = store.getMessageLinkByComment(comment.id);
+	if (!link || link.deletedOn) {
+		return
+	}
+	store.markMessageDeleted(link.messageId, "github");
+	if (link.origin !== "github" || ON_GITHUB_DELETE === "ignore") {
+		return
+	}
+	const thread = await getDiscordThread(link.threadId);
+	if (!thread) {
+		return
+	}
+	if (DRY_RUN) {
+		logger.info('Dry run: Skipping deletion of message on Discord')
+		return
+	}
+	if (ON_GITHUB_DELETE === "delete") {
+		await deleteDiscordMessage(thread, link);
+	} else {
+		await tombstoneDiscordMessage(thread, link);
+	}
+}
+
+/**
+ * Sync the deletion of a thread from Discord to GitHub.
+ */
+async function syncThreadDeletionOnGitHub(threadId: string) {
+	const link = store.getThreadLinkByThread(threadId);
+	if (!link || link.deletedOn) {
+		return
+	}
+	store.markThreadDeleted(threadId, "discord");
+	if (link.origin !== "discord" || ON_DISCORD_DELETE === "ignore") {
+		return
+	}
+	if (DRY_RUN) {
+		logger.info('Dry run: Skipping deletion of discussion on GitHub')
+		return
+	}
+	if (ON_DISCORD_DELETE === "delete") {
+		await deleteGithubDiscussion(link.discussionId);
+	} else {
+		await tombstoneGithubDiscussion(link.discussionId);
+	}
+}
+
+/**
+ * Sync the deletion of a message from Discord to GitHub.
+ */
+async function syncMessageDeletionOnGitHub(messageId: string) {
+	const link = store.getMessageLinkByMessage(messageId);
+	if (!link || link.deletedOn) {
+		return
+	}
+	store.markMessageDeleted(messageId, "discord");
+	if (link.origin !== "discord" || ON_DISCORD_DELETE === "ignore") {
+		return
+	}
+	if (DRY_RUN) {
+		logger.info('Dry run: Skipping deletion of comment on GitHub')
+		return
+	}
+	if (ON_DISCORD_DELETE === "delete") {
+		await deleteGithubComment(link.commentId);
+	} else {
+		await tombstoneGithubComment(link.commentId);
+	}
+}
+
+/**
+ * `/sync thread`, `/sync status`, `/link`, `/unlink` and `/ignore`, used in a thread of a synced forum
+ */
+async function handleModeratorCommand(interaction: ChatInputCommandInteraction) {
+	if (!isModerator(interaction)) {
+		await interaction.reply({ content: "You are not allowed to use this command.", flags: MessageFlags.Ephemeral });
+		return
+	}
+	const thread = interaction.channel;
+	const mapping = thread?.isThread() ? getMappingByForum(thread.parentId) : undefined;
+	if (!thread?.isThread() || !mapping) {
+		await interaction.reply({ content: "This command can only be used in a thread of a synced forum.", flags: MessageFlags.Ephemeral });
+		return
+	}
+
+	// syncing may take longer than the 3 seconds Discord waits for a reply
+	await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+	const link = store.getThreadLinkByThread(thread.id);
+	const ignored = store.isThreadIgnored(thread.id);
+
+	if (interaction.commandName === "sync" && interaction.options.getSubcommand() === "status") {
+		const jobs = listJobs(thread.id);
+		const dead = jobs.filter((it) => it.deadAt);
+		const lines = [
+			link
+				? `Mirrored to discussion [#${link.discussionNumber}](<https://github.com/${mapping.owner}/${mapping.repo}/discussions/${link.discussionNumber}>), started on ${link.origin === "github" ? "GitHub" : "Discord"}.`
+				: "Not mirrored to a discussion.",
+			link?.deletedOn && `Deleted on ${link.deletedOn === "github" ? "GitHub" : "Discord"}, the mirroring is stopped.`,
+			link && `${store.listMessageLinks(thread.id).filter((it) => !it.deletedOn).length} mirrored message(s).`,
+			ignored && "Ignored by a moderator, use `/ignore ignored:False` to resume the mirroring.",
+			jobs.length > dead.length && `${jobs.length - dead.length} pending write(s).`,
+			dead.length > 0 && `${dead.length} failed write(s), use \`/sync retry\` to try them again:`,
+			// the reply is limited to 2000 characters
+			...dead.slice(0, 10).map((it) => `- \`${it.type}\` after ${it.attempts} attempt(s): ${it.lastError?.slice(0, 150)}`),
+		];
+		await interaction.editReply(lines.filter(Boolean).join("\n"));
+	} else if (interaction.commandName === "sync" && interaction.options.getSubcommand() === "retry") {
+		const count = retryDeadJobs(thread.id);
+		await interaction.editReply(count > 0 ? `${count} failed write(s) will be tried again.` : "No failed write to try again.");
+	} else if (interaction.commandName === "sync") {
+		if (ignored) {
+			await interaction.editReply("This thread is ignored, use `/ignore ignored:False` to resume the mirroring first.");
+			return
+		}
+		// the queue may be syncing the thread at the same time
+		await runExclusive(thread.id, async () => {
+			const discussion = link && await getGithubDiscussion(link.discussionId);
+			if (discussion) {
+				await syncDiscussionOnDiscord(discussion);
+			} else {
+				await syncThreadOnGitHub(thread);
+			}
+		});
+		await interaction.editReply("The thread is synced.");
+	} else if (interaction.commandName === "link") {
+		if (!isThreadOfMapping(thread, mapping)) {
+			await interaction.editReply("This command can only be used in a thread of a synced forum.");
+			return
+		}
+		const number = interaction.options.getInteger("discussion", true);
+		const discussion = await getGithubDiscussionByNumber(mapping, number);
+		if (!discussion || discussion.category.name !== mapping.categoryName) {
+			await interaction.editReply(`Discussion #${number} does not exist in the ${mapping.categoryName} category of ${mapping.owner}/${mapping.repo}.`);
+			return
+		}
+		const other = store.getThreadLinkByDiscussion(discussion.id);
+		if (other && other.threadId !== thread.id) {
+			await interaction.editReply(`Discussion #${number} is already mirrored to <#${other.threadId}>, use \`/unlink\` in that thread first.`);
+			return
+		}
+		if (link && link.discussionId !== discussion.id) {
+			store.unlinkThread(thread.id);
+		}
+		store.linkThread({ threadId: thread.id, discussionId: discussion.id, discussionNumber: discussion.number, origin: link?.origin ?? guessOrigin(discussion) });
+		store.setThreadIgnored(thread.id, false);
+		await runExclusive(thread.id, () => syncThreadOnGitHub(thread));
+		await interaction.editReply(`The thread is now mirrored to discussion [#${number}](<${discussion.url}>).`);
+	} else if (interaction.commandName === "unlink") {
+		if (!link) {
+			await interaction.editReply("This thread is not mirrored to a discussion.");
+			return
+		}
+		store.unlinkThread(thread.id);
+		// without it, the thread would be linked back through the marker of the discussion
+		store.setThreadIgnored(thread.id, true);
+		await interaction.editReply(`The thread is not mirrored to discussion #${link.discussionNumber} anymore, use \`/link\` to mirror it to another discussion.`);
+	} else if (interaction.commandName === "ignore") {
+		const ignore = interaction.options.getBoolean("ignored") ?? true;
+		store.setThreadIgnored(thread.id, ignore);
+		await interaction.editReply(ignore
+			? "This thread and its discussion are not mirrored anymore."
+			: "The mirroring of this thread and its discussion is resumed, use `/sync thread` to mirror what was missed.");
+	}
+}
+
+/**
+ * Link the accounts when a comment is a link code posted from `/account link`.
+ *
+ * @returns whether the comment was a link code
+ */
+async function syncIdentityLink(comment: GithubComment) {
+	const identity = verifyLinkCode(comment);
+	if (!identity) {
+		return false
+	}
+	await notifyDiscordUser(identity.discordId, `✅ Your Discord account is now linked to the GitHub account **${identity.githubLogin}**.`);
+	if (DRY_RUN) {
+		logger.info('Dry run: Skipping deletion of link code on GitHub')
+		return true
+	}
+	// the code is single use, it has nothing to do in the discussion
+	await deleteGithubComment(comment.id);
+	return true
+}
+
 async function syncMessages(thread: AnyThreadChannel, discussion: GithubDiscussion) {
 	logger.info(`Loading messages from thread ${thread.id} & discussion ${discussion.id}`)
 	const [
@@ -168,38 +1227,46 @@ async function syncMessages(thread: AnyThreadChannel, discussion: GithubDiscussi
 		listGithubComments(discussion)
 	])
 
-	if (threadMessages.length === discussionMessages.length) {
+	const reconciliation = reconcile(thread.id, threadMessages, discussionMessages, store.listMessageLinks(thread.id))
+	const recovered = reconciliation.recovered
+	// the markers stop a direction whichever side triggered the sync
+	const discordOnly = await isThreadDiscordOnly(thread);
+	const githubOnly = isGithubOnly(await withLabels(discussion));
+	// opted out authors and filtered contents are left out, they are checked again on each sync
+	const missing = reconciliation.missing.filter((item) => item.to === "github"
+		? !discordOnly && canMirrorToGithub(item.message)
+		: !githubOnly && !isBlocked(item.comment.body, `comment ${item.comment.id}`));
+
+	for (const link of recovered) {
+		logger.info(`Recovered link between message ${link.messageId} & comment ${link.commentId}`)
+		store.linkMessage(link)
+	}
+
+	await syncReactions(thread, discussion, threadMessages);
+
+	if (missing.length === 0) {
 		logger.info(`No new messages to sync between Discord thread ${thread.id} & GitHub discussion ${discussion.id}`)
 		return;
 	}
 
-	const way = threadMessages.length < discussionMessages.length ? "discord" : "github";
+	const toDiscord = missing.filter((it) => it.to === "discord").length
+	logger.info(`Syncing ${toDiscord} message(s) from GitHub to Discord and ${missing.length - toDiscord} message(s) from Discord to GitHub`)
+	if (DRY_RUN) {
+		logger.info('Dry run enabled, skipping actual sync')
+		return;
+	}
 
-	if (way === "discord") {
-		logger.info('Syncing messages from GitHub to Discord')
-		if (DRY_RUN) {
-			logger.info('Dry run enabled, skipping actual sync')
-		} else {
-			for (let idx = threadMessages.length; idx < discussionMessages.length; idx++) {
-				const message = discussionMessages[idx]!;
-				await pushDiscordMessage(thread, message, discussion);
-			}
-		}
-	} else {
-		logger.info('Syncing messages from Discord to GitHub')
-		if (DRY_RUN) {
-			logger.info('Dry run enabled, skipping actual sync')
+	for (const item of missing) {
+		if (item.to === "discord") {
+			await pushDiscordMessage(thread, item.comment);
 		} else {
-			for (let idx = discussionMessages.length; idx < threadMessages.length; idx++) {
-				const message = threadMessages[idx]!;
-				await pushGithubComment(thread, message, discussion);
-			}
+			await pushGithubComment(thread, item.message, discussion);
 		}
 	}
-
-	return null;
 }
 
+let reactionsPolling: ReturnType<typeof setInterval> | undefined
+
 // Initialize, fetch category ID and start
 async function init() {
 	// load deps
@@ -209,25 +1276,34 @@ async function init() {
 		initDiscord().then(() => logger.info('Discord ready !')),
 		loadGithub().then(() => logger.info('Github ready !'))
 	])
+	await registerDiscordCommands(mappings, commands.map((it) => it.toJSON()))
 
-	logger.info('Syncing existing Discord threads to Github')
-	const threads = await listDiscordThreads();
-	for (const thread of threads) {
-		logger.info(`Syncing thread ${thread[0]}`)
-		await syncThreadOnGitHub(thread[1])
-	}
-	const discussions = await listGithubDiscussions();
-	for (const discussion of discussions) {
-		logger.info(`Syncing Discussion ${discussion.number}`)
-		await syncDiscussionOnDiscord(discussion)
+	// the initial synchronization goes through the queue, it resumes where it stopped when interrupted
+	for (const mapping of mappings) {
+		logger.info(`Syncing existing Discord threads of forum ${mapping.forumChannelId} to Github category ${mapping.categoryName}`)
+		const threads = await listDiscordThreads(mapping);
+		for (const thread of threads) {
+			logger.info(`Syncing thread ${thread[0]}`)
+			enqueue("sync-thread", thread[0], { threadId: thread[0] }, true)
+		}
+		const discussions = await listGithubDiscussions(mapping);
+		for (const discussion of discussions) {
+			logger.info(`Syncing Discussion ${discussion.number}`)
+			enqueue("sync-discussion", store.getThreadLinkByDiscussion(discussion.id)?.threadId ?? discussion.id, { discussionId: discussion.id }, true)
+		}
 	}
+	startQueue(jobHandlers)
 
 	// Set up Express server
-	const port = process.env.PORT || 3000;
+	const port = config.port;
 	app.listen(port, () =>
 		logger.info(`Webhook server listening on port ${port}${DRY_RUN ? " (dry run mode)" : ""}`)
 	)
 
+	if (config.reactions.enabled && config.reactions.pollInterval > 0) {
+		reactionsPolling = setInterval(pollReactions, config.reactions.pollInterval * 60 * 1000)
+	}
+
 	// Handle graceful shutdown
 	process.on("SIGINT", gracefulShutdown)
 	process.on("SIGTERM", gracefulShutdown)
@@ -236,6 +1312,9 @@ async function init() {
 function gracefulShutdown() {
 	logger.info("Shutting down gracefully...")
 
+	clearInterval(reactionsPolling)
+	stopQueue()
+
 	// Close Discord connection
 	destroyDiscord()
 
@@ -246,4 +1325,10 @@ function gracefulShutdown() {
 	}, 1000)
 }
 
+// print the resolved configuration and stop, the configuration is validated when loaded
+if (process.argv.includes("--check-config")) {
+	console.log(JSON.stringify(describeConfig(config), undefined, "\t"))
+	process.exit(0)
+}
+
 init()
@@ -0,0 +1,103 @@
+import { describe, expect, test } from "bun:test"
+import { discordToGithub, githubToDiscord, splitMarkdown, type DiscordMentions } from "./markdown"
+
+/**
+ * name => GitHub content and the Discord content it is converted to
+ */
+const GITHUB_TO_DISCORD: Record<string, [string, string]> = {
+	"HTML comments": ["<!-- Discord:123 -->\nHello", "Hello"],
+	"images": ["![logo](https://example.com/logo.png \"Logo\")", "https://example.com/logo.png"],
+	"HTML images": ["<img width=\"200\" src=\"https://example.com/logo.png\" />", "https://example.com/logo.png"],
+	"collapsible sections": ["<details><summary>Logs</summary>\n\nHidden\n</details>", "**▶ Logs**\n\nHidden"],
+	"HTML formatting": ["<b>bold</b> <em>italic</em> <code>code</code><br>next", "**bold** *italic* `code`\nnext"],
+	"HTML links": ["<a href=\"https://example.com\">site</a>", "[site](<https://example.com>)"],
+	"deep headings": ["#### Title ####", "**Title**"],
+	"task lists": ["- [ ] todo\n- [x] done", "- ☐ todo\n- ☑ done"],
+	"footnotes": ["Note[^1]\n\n[^1]: The note", "Note[1]\n\n-# [1] The note"],
+	"tables": ["| Name | Count |\n|:-----|------:|\n| a | 12 |", "```\nName | Count\n-----+------\na    | 12\n```"],
+	"Discord mentions": ["<@123> <@&456> <#789> @everyone @here", "<\u200B@123> <\u200B@&456> <\u200B#789> @\u200Beveryone @\u200Bhere"],
+	"GitHub mentions": ["@octocat and @linked", "[@octocat](<https://github.com/octocat>) and <@42>"],
+	"emails": ["contact@example.com", "contact@example.com"],
+	"issue references": ["See #12", "See [#12](<https://github.com/tcgdex/sdk/issues/12>)"],
+	"cross-repository references": ["Fixed in tcgdex/cards-database#123", "Fixed in [tcgdex/cards-database#123](<https://github.com/tcgdex/cards-database/issues/123>)"],
+	"references in parentheses": ["(tcgdex/cards-database#1)", "([tcgdex/cards-database#1](<https://github.com/tcgdex/cards-database/issues/1>))"],
+	"URL fragments": ["see https://example.com/page#12", "see https://example.com/page#12"],
+	"link targets": ["[page](https://example.com/page#12) <https://example.com/a/b#3>", "[page](https://example.com/page#12) <https://example.com/a/b#3>"],
+	"code": ["`#12 @octocat`\n```\n<!-- kept -->\n```", "`#12 @octocat`\n```\n<!-- kept -->\n```"],
+	"blank lines": ["a\n\n\n\nb", "a\n\nb"],
+}
+
+const MENTIONS: DiscordMentions = {
+	guildId: "1",
+	users: { "2": "Alice", "3": "Bob" },
+	channels: { "4": "general" },
+	roles: { "5": "Moderators" },
+	logins: { "3": "bob-gh" },
+}
+
+/**
+ * name => Discord content and the GitHub content it is converted to, with the mentions of `MENTIONS`
+ */
+const DISCORD_TO_GITHUB: Record<string, [string, string]> = {
+	"user mentions": ["hi <@2> and <@!3>", "hi `@Alice` and @bob-gh"],
+	"unknown users": ["<@9>", "`@unknown-user`"],
+	"role and channel mentions": ["<@&5> in <#4>", "`@Moderators` in [#general](https://discord.com/channels/1/4)"],
+	"GitHub mentions": ["@someone and @bob-gh", "`@someone` and @bob-gh"],
+	"custom emojis": ["<:tcg:123> <a:wave:456>", "<img src=\"https://cdn.discordapp.com/emojis/123.webp?size=48\" alt=\":tcg:\" title=\":tcg:\" height=\"20\"> <img src=\"https://cdn.discordapp.com/emojis/456.gif?size=48\" alt=\":wave:\" title=\":wave:\" height=\"20\">"],
+	"timestamps": ["<t:0:D> <t:0:t>", "January 1, 1970 UTC 12:00 AM UTC"],
+	"spoilers": ["||secret||", "<details><summary>Spoiler</summary>\n\nsecret\n\n</details>"],
+	"subtext": ["-# small", "<sub>small</sub>"],
+	"underline": ["__under__", "<ins>under</ins>"],
+	"links without embed": ["[site](<https://example.com>)", "[site](https://example.com)"],
+	"block quotes": ["before\n>>> quoted\nlines", "before\n> quoted\n> lines"],
+	"code": ["`<@2> ||x||`\n```\n@someone\n```", "`<@2> ||x||`\n```\n@someone\n```"],
+}
+
+/**
+ * name => text, maximum length and the parts it is split in
+ */
+const SPLIT_MARKDOWN: Record<string, [string, number, Array<string>]> = {
+	"short texts": ["short", 10, ["short"]],
+	"paragraphs": ["first one\n\nsecond one", 12, ["first one", "second one"]],
+	"paragraphs fitting together": ["a\n\nb\n\nlonger one", 10, ["a\n\nb", "longer one"]],
+	"long lines": ["a b c d e f g h", 5, ["a b c", "d e f", "g h"]],
+	"code blocks": ["```js\nline 1\nline 2\nline 3\n```", 24, ["```js\nline 1\nline 2\n```", "```js\nline 3\n```"]],
+	"blank lines in code blocks": ["```\na\n\nb\n```", 20, ["```\na\n\nb\n```"]],
+	"code blocks after some text": ["Here is my log:\n```\nline 1\nline 2\n```\nafter", 30, ["Here is my log:\n```\nline 1\n```", "```\nline 2\n```\nafter"]],
+}
+
+describe("githubToDiscord", () => {
+	for (const [name, [input, expected]] of Object.entries(GITHUB_TO_DISCORD)) {
+		test(name, () => {
+			expect(githubToDiscord(input, "tcgdex/sdk", { linked: "42" })).toBe(expected)
+		})
+	}
+})
+
+describe("discordToGithub", () => {
+	for (const [name, [input, expected]] of Object.entries(DISCORD_TO_GITHUB)) {
+		test(name, () => {
+			expect(discordToGithub(input, MENTIONS, ["bob-gh"])).toBe(expected)
+		})
+	}
+})
+
+describe("splitMarkdown", () => {
+	for (const [name, [input, maxLength, expected]] of Object.entries(SPLIT_MARKDOWN)) {
+		test(name, () => {
+			const parts = splitMarkdown(input, maxLength)
+			expect(parts).toEqual(expected)
+			for (const part of parts) {
+				expect(part.length).toBeLessThanOrEqual(maxLength)
+			}
+		})
+	}
+
+	test("code blocks cut in many parts", () => {
+		const parts = splitMarkdown("text before\n```\n" + "a\n".repeat(600) + "```", 500)
+		expect(parts.length).toBe(3)
+		for (const part of parts) {
+			expect(part.match(/```/g)?.length).toBe(2)
+		}
+	})
+})
@@ -0,0 +1,328 @@
+/**
+ * Names of the entities mentioned in a Discord message, Discord only stores their IDs in the content
+ */
+export interface DiscordMentions {
+	/**
+	 * the guild of the message, used to link the mentioned channels
+	 */
+	guildId: string | null
+	/**
+	 * user ID => display name
+	 */
+	users: Record<string, string>
+	/**
+	 * channel ID => channel name
+	 */
+	channels: Record<string, string>
+	/**
+	 * role ID => role name
+	 */
+	roles: Record<string, string>
+	/**
+	 * user ID => GitHub login, for the users who linked their GitHub account
+	 */
+	logins: Record<string, string>
+}
+
+// fenced code blocks (possibly not closed) and inline code are never converted
+const CODE = /```[\s\S]*?(?:```|$)|~~~[\s\S]*?(?:~~~|$)|`[^`\n]+`/g
+// link targets and URLs, a `#` in them is part of the URL and not a reference
+const LINK = /\]\((?:<[^>\n]*>|[^)\s]*)(?:\s+"[^"\n]*")?\)|<https?:\/\/[^>\s]+>|https?:\/\/[^\s<>)]+/g
+
+/**
+ * Apply a conversion on the parts of a text not matching a pattern,
+ * they are replaced by placeholders made of private use characters while converting
+ */
+function outside(pattern: RegExp, [start, end]: [string, string], text: string, convert: (text: string) => string): string {
+	const kept: Array<string> = []
+	const protectedText = text.replace(pattern, (match) => `${start}${kept.push(match) - 1}${end}`)
+	return convert(protectedText).replace(new RegExp(`${start}(\\d+)${end}`, "g"), (_, idx) => kept[Number(idx)]!)
+}
+
+/**
+ * Apply a conversion on the parts of a Markdown text that are not code
+ */
+function outsideCode(text: string, convert: (text: string) => string): string {
+	return outside(CODE, ["\uE000", "\uE001"], text, convert)
+}
+
+/**
+ * Apply a conversion on the parts of a Markdown text that are not links
+ */
+function outsideLinks(text: string, convert: (text: string) => string): string {
+	return outside(LINK, ["\uE002", "\uE003"], text, convert)
+}
+
+function splitRow(line: string): Array<string> {
+	return line.trim()
+		.replace(/^\|/, "")
+		.replace(/(?<!\\)\|$/, "")
+		.split(/(?<!\\)\|/)
+		.map((it) => it.trim().replace(/\\\|/g, "|"))
+}
+
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/
+
+/**
+ * Discord does not render tables, they are aligned in a code block instead
+ */
+function convertTables(text: string): string {
+	const lines = text.split("\n")
+	const result: Array<string> = []
+
+	for (let idx = 0; idx < lines.length; idx++) {
+		const line = lines[idx]!
+		const separator = lines[idx + 1]
+		if (!line.includes("|") || separator === undefined || !separator.includes("|") || !TABLE_SEPARATOR.test(separator)) {
+			result.push(line)
+			continue
+		}
+
+		const rows = [splitRow(line)]
+		idx += 2
+		while (idx < lines.length && lines[idx]!.includes("|") && lines[idx]!.trim() !== "") {
+			rows.push(splitRow(lines[idx]!))
+			idx++
+		}
+		idx--
+
+		const columns = Math.max(...rows.map((it) => it.length))
+		const widths = Array.from({ length: columns }, (_, column) => Math.max(...rows.map((row) => row[column]?.length ?? 0)))
+		const format = (row: Array<string>) => widths.map((width, column) => (row[column] ?? "").padEnd(width)).join(" | ").trimEnd()
+
+		result.push(
+			"```",
+			format(rows[0]!),
+			widths.map((width) => "-".repeat(width)).join("-+-"),
+			...rows.slice(1).map(format),
+			"```"
+		)
+	}
+
+	return result.join("\n")
+}
+
+/**
+ * Convert GitHub Flavored Markdown to the Markdown understood by Discord
+ *
+ * @param body the GitHub content
+ * @param repository the repository full name (`owner/repo`) the issue references are relative to
+ * @param discordIds GitHub login (lowercase) => Discord user ID, linked accounts are mentioned on Discord
+ */
+export function githubToDiscord(body: string, repository?: string, discordIds: Record<string, string> = {}): string {
+	return outsideCode(body, (text) => {
+		text = text
+			// HTML comments are invisible on GitHub
+			.replace(/<!--[\s\S]*?-->/g, "")
+			// images are embedded by Discord when their URL is posted
+			.replace(/!\[[^\]]*\]\((https?:\/\/[^\s)]+)(?:\s+"[^"]*")?\)/g, "$1")
+			.replace(/<img\s[^>]*?src=["']([^"']+)["'][^>]*>/gi, "$1")
+			// collapsible sections are always expanded
+			.replace(/<summary>\s*([\s\S]*?)\s*<\/summary>/gi, "**▶ $1**\n")
+			.replace(/<\/?details(?:\s[^>]*)?>/gi, "")
+			.replace(/<br\s*\/?>/gi, "\n")
+			.replace(/<(b|strong)>([\s\S]*?)<\/\1>/gi, "**$2**")
+			.replace(/<(i|em)>([\s\S]*?)<\/\1>/gi, "*$2*")
+			.replace(/<code>([\s\S]*?)<\/code>/gi, "`$1`")
+			.replace(/<a\s[^>]*?href=["']([^"']+)["'][^>]*>([\s\S]*?)<\/a>/gi, "[$2](<$1>)")
+			.replace(/<\/?(?:p|div|span|sub|sup|ins|kbd|picture|source)(?:\s[^>]*)?>/gi, "")
+			// Discord only has 3 levels of headings
+			.replace(/^#{4,6}\s+(.+?)(?:\s+#+)?\s*$/gm, "**$1**")
+			// task lists
+			.replace(/^(\s*[-*+]\s+)\[ \]\s/gm, "$1☐ ")
+			.replace(/^(\s*[-*+]\s+)\[[xX]\]\s/gm, "$1☑ ")
+			// footnotes
+			.replace(/^\[\^([^\]]+)\]:\s*/gm, "-# [$1] ")
+			.replace(/\[\^([^\]]+)\]/g, "[$1]")
+
+		// Discord mentions written on GitHub are plain text, only the linked accounts are mentioned
+		text = text
+			.replace(/<(@[!&]?|#)(\d+)>/g, "<\u200B$1$2>")
+			.replace(/@(everyone|here)\b/g, "@\u200B$1")
+
+		// references are links on GitHub only
+		text = outsideLinks(text, (text) => {
+			text = text
+				// only after a space or a punctuation that cannot be part of an URL
+				.replace(/(?<![^\s(,;!?*_~"'])([\w.-]+\/[\w.-]+)#(\d+)\b/g, "[$1#$2](<https://github.com/$1/issues/$2>)")
+				.replace(/(?<![\w/@&#[\u200B])@([a-zA-Z\d](?:[a-zA-Z\d]|-(?=[a-zA-Z\d])){0,38})(?![\w/])/g, (_, login: string) => {
+					const discordId = discordIds[login.toLowerCase()]
+					return discordId ? `<@${discordId}>` : `[@${login}](<https://github.com/${login}>)`
+				})
+			if (repository) {
+				text = text.replace(/(?<![\w/&#[\u200B])#(\d+)\b/g, `[#$1](<https://github.com/${repository}/issues/$1>)`)
+			}
+			return text
+		})
+
+		return convertTables(text).replace(/\n{3,}/g, "\n\n")
+	}).trim()
+}
+
+const TIMESTAMP_FORMATS: Record<string, Intl.DateTimeFormatOptions> = {
+	t: { timeStyle: "short" },
+	T: { timeStyle: "medium" },
+	d: { dateStyle: "short" },
+	D: { dateStyle: "long" },
+	f: { dateStyle: "long", timeStyle: "short" },
+	F: { dateStyle: "full", timeStyle: "short" },
+}
+
+function formatTimestamp(seconds: number, style = "f"): string {
+	const date = new Date(seconds * 1000)
+	// relative timestamps have no meaning once mirrored, the full date is used instead
+	const format = TIMESTAMP_FORMATS[style] ?? TIMESTAMP_FORMATS.f!
+	return `${date.toLocaleString("en-US", { ...format, timeZone: "UTC" })} UTC`
+}
+
+/**
+ * Convert the Markdown of a Discord message to GitHub Flavored Markdown
+ *
+ * Mentions of users who linked their GitHub account are GitHub mentions, the others are rendered as code
+ * to not notify GitHub users sharing the name of a Discord user.
+ * For the same reason, `@login` and `@org/team` written on Discord only stay mentions when the account is linked.
+ *
+ * @param content the Discord content
+ * @param mentions the names of the entities mentioned in the message
+ * @param linkedLogins the GitHub logins (lowercase) of the linked accounts
+ */
+export function discordToGithub(content: string, mentions: DiscordMentions, linkedLogins: Array<string> = []): string {
+	return outsideCode(content, (text) => {
+		// `>>> ` quotes everything until the end of the message
+		const blockQuote = /^>>> /m.exec(text)
+		if (blockQuote) {
+			const quoted = text.slice(blockQuote.index + 4).split("\n").map((it) => `> ${it}`.trimEnd()).join("\n")
+			text = text.slice(0, blockQuote.index) + quoted
+		}
+
+		return text
+			.replace(/(?<![\w<`])@([a-zA-Z\d][\w-]*(?:\/[\w-]+)?)/g, (mention, login: string) =>
+				linkedLogins.includes(login.toLowerCase()) ? mention : `\`${mention}\``
+			)
+			.replace(/<@!?(\d+)>/g, (_, id) => mentions.logins[id] ? `@${mentions.logins[id]}` : `\`@${mentions.users[id] ?? "unknown-user"}\``)
+			.replace(/<@&(\d+)>/g, (_, id) => `\`@${mentions.roles[id] ?? "unknown-role"}\``)
+			.replace(/<#(\d+)>/g, (_, id) => {
+				const name = `#${mentions.channels[id] ?? "unknown-channel"}`
+				return mentions.guildId ? `[${name}](https://discord.com/channels/${mentions.guildId}/${id})` : name
+			})
+			.replace(/<(a?):(\w+):(\d+)>/g, (_, animated, name, id) =>
+				`<img src="https://cdn.discordapp.com/emojis/${id}.${animated ? "gif" : "webp"}?size=48" alt=":${name}:" title=":${name}:" height="20">`
+			)
+			.replace(/<t:(-?\d+)(?::([tTdDfFR]))?>/g, (_, seconds, style) => formatTimestamp(Number(seconds), style))
+			.replace(/\|\|([\s\S]+?)\|\|/g, "<details><summary>Spoiler</summary>\n\n$1\n\n</details>")
+			// subtext
+			.replace(/^-# (.+)$/gm, "<sub>$1</sub>")
+			// underline
+			.replace(/__([^_\n]+?)__/g, "<ins>$1</ins>")
+			// links with their embed disabled
+			.replace(/\]\(<(https?:\/\/[^>\s]+)>\)/g, "]($1)")
+	})
+}
+
+const FENCE = /^\s*(`{3,}|~{3,})/
+
+/**
+ * Split a text into paragraphs, code blocks being kept whole
+ */
+function splitBlocks(text: string): Array<string> {
+	const blocks: Array<string> = []
+	let current: Array<string> = []
+	let fence: string | null = null
+
+	for (const line of text.split("\n")) {
+		const marker = FENCE.exec(line)?.[1]
+		if (marker && (!fence || marker.startsWith(fence))) {
+			fence = fence ? null : marker
+		}
+		if (!fence && line.trim() === "" && !marker) {
+			if (current.length > 0) {
+				blocks.push(current.join("\n"))
+			}
+			current = []
+			continue
+		}
+		current.push(line)
+	}
+	if (current.length > 0) {
+		blocks.push(current.join("\n"))
+	}
+
+	return blocks
+}
+
+/**
+ * Cut a line too long to fit in a message, on a space when possible
+ */
+function cutLine(line: string, maxLength: number): Array<string> {
+	const parts: Array<string> = []
+	while (line.length > maxLength) {
+		const space = line.lastIndexOf(" ", maxLength)
+		const end = space > maxLength / 2 ? space : maxLength
+		parts.push(line.slice(0, end))
+		line = line.slice(end).trimStart()
+	}
+	parts.push(line)
+	return parts
+}
+
+/**
+ * @returns the line closing the code block opened by a fence, with its line break
+ */
+function makeClosing(opening: string | null): string {
+	return opening ? `\n${FENCE.exec(opening)![1]}` : ""
+}
+
+/**
+ * Split a block too long to fit in a message by lines, code blocks are closed and re-opened around the cut
+ */
+function splitBlock(block: string, maxLength: number): Array<string> {
+	if (block.length <= maxLength) {
+		return [block]
+	}
+
+	const pieces: Array<string> = []
+	let current = ""
+	// the fence of the code block being read, a code block may start after some text of the block
+	let opening: string | null = null
+	for (const line of block.split("\n")) {
+		const marker = FENCE.exec(line)?.[1]
+		const next: string | null = marker && (!opening || marker.startsWith(FENCE.exec(opening)![1]!)) ? (opening ? null : line) : opening
+		const closing = makeClosing(opening)
+		const nextClosing = makeClosing(next)
+		const budget = maxLength - Math.max(closing.length, nextClosing.length) - (opening ? opening.length + 1 : 0)
+
+		for (const part of cutLine(line, budget)) {
+			if (current && current.length + part.length + 1 + nextClosing.length > maxLength) {
+				pieces.push(current + closing)
+				current = opening ? `${opening}\n${part}` : part
+				continue
+			}
+			current = current ? `${current}\n${part}` : part
+		}
+		opening = next
+	}
+	pieces.push(current)
+
+	return pieces
+}
+
+/**
+ * Split a Markdown text into parts of at most `maxLength` characters
+ *
+ * Parts are cut between paragraphs when possible, and code blocks cut in the middle are re-opened in the next part.
+ */
+export function splitMarkdown(text: string, maxLength: number): Array<string> {
+	const parts: Array<string> = []
+	let current = ""
+	for (const block of splitBlocks(text).flatMap((it) => splitBlock(it, maxLength))) {
+		if (current && current.length + block.length + 2 > maxLength) {
+			parts.push(current)
+			current = block
+			continue
+		}
+		current = current ? `${current}\n\n${block}` : block
+	}
+	parts.push(current)
+
+	return parts
+}
@@ -0,0 +1,44 @@
+import store from "./config/store"
+import type { ThreadMessage } from "./discord"
+import { getGithubLogin, type GithubComment } from "./github"
+
+/**
+ * hidden marker added to the comments mirrored from Discord, with the ID of the source message
+ */
+const ORIGIN_MARKER = /<!-- Discord:message:(\d+) -->/
+
+// comments mirrored before the marker existed only have the attribution header
+// 💬 **user** on [Discord](https://discord.com/channels/guild/thread/message) wrote:
+const LEGACY_MARKER = /^💬 \*\*.+?\*\* on \[Discord\]\(https:\/\/discord\.com\/channels\/\d+\/\d+\/(\d+)\) wrote:/
+
+/**
+ * @returns the marker to add to a comment mirroring the Discord message
+ */
+export function makeOriginMarker(messageId: string): string {
+	return `<!-- Discord:message:${messageId} -->`
+}
+
+/**
+ * @returns the ID of the Discord message a comment was mirrored from, if any
+ */
+export function getOriginMessageId(comment: GithubComment): string | undefined {
+	// anyone can write the markers, they only count in the comments of the bot
+	const login = getGithubLogin()
+	if (!login || comment.author?.login.toLowerCase() !== login.toLowerCase()) {
+		return undefined
+	}
+	return ORIGIN_MARKER.exec(comment.body)?.[1] ?? LEGACY_MARKER.exec(comment.body)?.[1]
+}
+
+/**
+ * Whether an item was produced by the bot, it must never be mirrored back to where it comes from
+ *
+ * Discord messages are recognized by their author, GitHub comments by their author and origin marker,
+ * and both by their stored link. The content itself is never trusted: a user quoting a mirrored message is not a mirror.
+ */
+export function isMirrored(item: ThreadMessage | GithubComment): boolean {
+	if ("body" in item) {
+		return getOriginMessageId(item) !== undefined || store.getMessageLinkByComment(item.id)?.origin === "discord"
+	}
+	return item.isAuthor || store.getMessageLinkByMessage(item.id)?.origin === "github"
+}
@@ -0,0 +1,244 @@
+import { RateLimitError } from "discord.js"
+import config from "./config/config"
+import logger from "./config/logger"
+import store from "./config/store"
+import type { Job } from "./store/store-interface"
+
+export type JobHandler = (payload: Record<string, any>) => Promise<void>
+
+/**
+ * retries are never delayed by more than an hour
+ */
+const MAX_RETRY_DELAY = 60 * 60 * 1000
+
+/**
+ * delay when a rate limit is reported without telling when it ends (ex: GitHub secondary rate limits)
+ */
+const DEFAULT_RATE_LIMIT_DELAY = 60 * 1000
+
+let handlers: Record<string, JobHandler> = {}
+let timer: ReturnType<typeof setTimeout> | undefined
+let stopped = true
+/**
+ * the keys of the jobs and tasks being run, their conversations are locked until they end
+ */
+const active: Array<string> = []
+/**
+ * the tasks waiting for their conversation to be unlocked
+ */
+let waiters: Array<() => void> = []
+/**
+ * the IDs of the jobs being run
+ */
+const running = new Set<string>()
+/**
+ * every job waits until then after a rate limit, the limits are shared by all the jobs
+ */
+let pausedUntil = 0
+
+/**
+ * Add a write to the queue, it is kept in the store until it succeeds
+ *
+ * @param key the conversation of the job, the jobs of a conversation are run in order
+ * @param coalesce skip the job when the same job is already waiting in the conversation,
+ * for the jobs syncing everything a single run is enough for all the triggers
+ */
+export function enqueue(type: string, key: string, payload: Record<string, any>, coalesce = false) {
+	if (coalesce) {
+		// the running job may have loaded the conversation before the trigger, it does not count
+		const json = JSON.stringify(payload)
+		const waiting = listJobs(key).find((it) => !it.deadAt && it.type === type && !running.has(it.id) && JSON.stringify(it.payload) === json)
+		if (waiting) {
+			logger.info(`[Queue] Job ${type} of ${key} already waiting as ${waiting.id}`)
+			return
+		}
+	}
+	const job = store.addJob({ type, key, payload })
+	logger.info(`[Queue] Added job ${job.id} (${type}) of ${key}`)
+	wake()
+}
+
+/**
+ * Start running the jobs, including the ones left by a previous run
+ *
+ * @param jobHandlers job type => function doing the job
+ */
+export function startQueue(jobHandlers: Record<string, JobHandler>) {
+	handlers = jobHandlers
+	stopped = false
+	const pending = store.listJobs().filter((it) => !it.deadAt).length
+	logger.info(`[Queue] Starting with ${pending} pending job(s)`)
+	wake()
+}
+
+/**
+ * Stop running the jobs, the job being run is finished and the others are kept for the next run
+ */
+export function stopQueue() {
+	stopped = true
+	clearTimeout(timer)
+}
+
+/**
+ * @returns the pending and dead jobs of a conversation
+ */
+export function listJobs(key: string): Array<Job> {
+	const conversation = getConversation(key)
+	return store.listJobs().filter((it) => getConversation(it.key) === conversation)
+}
+
+/**
+ * Run a task once nothing else runs in the conversation, the queue waits for it before running the next jobs of the conversation
+ *
+ * @param key the conversation of the task
+ */
+export async function runExclusive<T>(key: string, task: () => Promise<T>): Promise<T> {
+	while (isBusy(key)) {
+		await new Promise<void>((resolve) => waiters.push(resolve))
+	}
+	active.push(key)
+	try {
+		return await task()
+	} finally {
+		release(key)
+	}
+}
+
+/**
+ * Give another chance to the dead jobs of a conversation
+ *
+ * @returns the number of jobs put back in the queue
+ */
+export function retryDeadJobs(key: string): number {
+	const dead = listJobs(key).filter((it) => it.deadAt)
+	for (const job of dead) {
+		store.updateJob({ ...job, attempts: 0, runAt: new Date().toISOString(), deadAt: undefined })
+	}
+	wake()
+	return dead.length
+}
+
+function wake(delay = 0) {
+	if (stopped) {
+		return
+	}
+	clearTimeout(timer)
+	timer = setTimeout(work, delay)
+}
+
+/**
+ * @returns the conversation of a key, the jobs queued for a discussion before its thread was created belong to the thread once linked
+ */
+function getConversation(key: string): string {
+	return store.getThreadLinkByDiscussion(key)?.threadId ?? key
+}
+
+function isBusy(key: string): boolean {
+	const conversation = getConversation(key)
+	return active.some((it) => getConversation(it) === conversation)
+}
+
+function release(key: string) {
+	active.splice(active.indexOf(key), 1)
+	// the waiting tasks are resumed before the queue wakes up, they are not starved by the jobs
+	const resumed = waiters
+	waiters = []
+	resumed.forEach((resolve) => resolve())
+	wake()
+}
+
+/**
+ * @returns the next job of each conversation not locked, the next job of a conversation waits for the previous one to succeed or die
+ */
+function listNextJobs(): Array<Job> {
+	const busy = new Set(active.map(getConversation))
+	const next: Array<Job> = []
+	for (const job of store.listJobs()) {
+		const conversation = getConversation(job.key)
+		if (job.deadAt || busy.has(conversation)) {
+			continue
+		}
+		busy.add(conversation)
+		next.push(job)
+	}
+	return next
+}
+
+/**
+ * Start the jobs that can be run, the conversations are synced in parallel up to the configured concurrency
+ */
+function work() {
+	let job: Job | undefined
+	while (!stopped && active.length < config.queue.concurrency && pausedUntil <= Date.now() && (job = listNextJobs().find((it) => new Date(it.runAt).getTime() <= Date.now()))) {
+		const { id, key } = job
+		active.push(key)
+		running.add(id)
+		run(job).finally(() => {
+			running.delete(id)
+			release(key)
+		})
+	}
+
+	// sleep until a job can be retried, the end of a running job wakes the queue for the others
+	const next = listNextJobs()
+	if (!stopped && active.length < config.queue.concurrency && next.length > 0) {
+		const runAt = Math.max(pausedUntil, Math.min(...next.map((it) => new Date(it.runAt).getTime())))
+		wake(Math.max(runAt - Date.now(), 0))
+	}
+}
+
+async function run(job: Job) {
+	const handler = handlers[job.type]
+	if (!handler) {
+		// retrying would not help, ex: job left by another version
+		store.updateJob({ ...job, lastError: `Unknown job type ${job.type}`, deadAt: new Date().toISOString() })
+		logger.error(`[Queue] Giving up job ${job.id} of unknown type ${job.type}`)
+		return
+	}
+	try {
+		await handler(job.payload)
+		store.removeJob(job.id)
+	} catch (error: any) {
+		// the job is not the one failing, it is run again once the limit is over
+		const rateLimit = getRateLimitDelay(error)
+		if (rateLimit !== undefined) {
+			pausedUntil = Date.now() + rateLimit
+			logger.warning(`[Queue] Rate limited while running job ${job.id} (${job.type}), pausing for ${Math.ceil(rateLimit / 1000)}s`)
+			return
+		}
+
+		const attempts = job.attempts + 1
+		const lastError = error?.message ?? String(error)
+		if (attempts >= config.queue.maxAttempts) {
+			store.updateJob({ ...job, attempts, lastError, deadAt: new Date().toISOString() })
+			logger.error(`[Queue] Giving up job ${job.id} (${job.type}) of ${job.key} after ${attempts} attempt(s): ${lastError}`)
+			return
+		}
+		const delay = Math.min(config.queue.retryDelay * 1000 * 2 ** (attempts - 1), MAX_RETRY_DELAY)
+		store.updateJob({ ...job, attempts, lastError, runAt: new Date(Date.now() + delay).toISOString() })
+		logger.warning(`[Queue] Job ${job.id} (${job.type}) failed, retrying in ${Math.ceil(delay / 1000)}s: ${lastError}`)
+	}
+}
+
+/**
+ * @returns the time to wait before running any job when the error is a rate limit (in ms), or undefined
+ */
+function getRateLimitDelay(error: any): number | undefined {
+	// discord.js waits for the Discord rate limits by itself, they only reach here when they are too long
+	if (error instanceof RateLimitError) {
+		return error.retryAfter
+	}
+
+	// GitHub errors from @octokit/graphql hold the response headers
+	const headers: Record<string, string | undefined> = error?.response?.headers ?? error?.headers ?? {}
+	if (headers["retry-after"]) {
+		return Number(headers["retry-after"]) * 1000
+	}
+	if (headers["x-ratelimit-remaining"] === "0" && headers["x-ratelimit-reset"]) {
+		return Math.max(Number(headers["x-ratelimit-reset"]) * 1000 - Date.now(), 0) + 1000
+	}
+	const rateLimited = error?.status === 429 ||
+		error?.errors?.some?.((it: any) => it?.type === "RATE_LIMITED") ||
+		/secondary rate limit/i.test(error?.message ?? "")
+	return rateLimited ? DEFAULT_RATE_LIMIT_DELAY : undefined
+}
@@ -0,0 +1,74 @@
+import type { GithubReactionGroup } from "./github"
+
+/**
+ * the reactions supported by GitHub
+ */
+export type GithubReactionContent = "THUMBS_UP" | "THUMBS_DOWN" | "LAUGH" | "HOORAY" | "CONFUSED" | "HEART" | "ROCKET" | "EYES"
+
+/**
+ * GitHub reaction => Discord emoji mirroring it
+ */
+const REACTION_EMOJIS: Record<GithubReactionContent, string> = {
+	THUMBS_UP: "👍",
+	THUMBS_DOWN: "👎",
+	LAUGH: "😄",
+	HOORAY: "🎉",
+	CONFUSED: "😕",
+	HEART: "❤️",
+	ROCKET: "🚀",
+	EYES: "👀",
+}
+
+export interface DiscordReaction {
+	/**
+	 * the unicode emoji
+	 */
+	emoji: string
+	count: number
+	/**
+	 * whether the bot is one of the users who reacted
+	 */
+	me: boolean
+}
+
+export interface ReactionChanges {
+	/**
+	 * Discord emojis the bot has to add (true) or remove (false)
+	 */
+	discord: Array<{ emoji: string, reacted: boolean }>
+	/**
+	 * GitHub reactions the bot has to add (true) or remove (false)
+	 */
+	github: Array<{ content: GithubReactionContent, reacted: boolean }>
+}
+
+/**
+ * @returns the GitHub reaction mirrored by a Discord emoji, if it is supported
+ */
+export function emojiToReaction(emoji: string | null): GithubReactionContent | undefined {
+	return (Object.keys(REACTION_EMOJIS) as Array<GithubReactionContent>).find((it) => REACTION_EMOJIS[it] === emoji)
+}
+
+/**
+ * Compute the reactions to mirror between a Discord message and a GitHub comment
+ *
+ * The bot reacts once on a side as soon as someone else used the reaction on the other side,
+ * so its own reactions are never counted and the counts of each side are left to their users.
+ */
+export function computeReactionChanges(discordReactions: Array<DiscordReaction>, githubReactions: Array<GithubReactionGroup>): ReactionChanges {
+	const changes: ReactionChanges = { discord: [], github: [] }
+	for (const [content, emoji] of Object.entries(REACTION_EMOJIS) as Array<[GithubReactionContent, string]>) {
+		const discord = discordReactions.find((it) => it.emoji === emoji)
+		const github = githubReactions.find((it) => it.content === content)
+		const onDiscord = !!discord && discord.count - (discord.me ? 1 : 0) > 0
+		const onGithub = !!github && github.reactors.totalCount - (github.viewerHasReacted ? 1 : 0) > 0
+
+		if (onGithub !== !!discord?.me) {
+			changes.discord.push({ emoji, reacted: onGithub })
+		}
+		if (onDiscord !== !!github?.viewerHasReacted) {
+			changes.github.push({ content, reacted: onDiscord })
+		}
+	}
+	return changes
+}
@@ -0,0 +1,190 @@
+import { describe, expect, spyOn, test } from "bun:test"
+import type { ThreadMessage } from "./discord"
+import * as github from "./github"
+import { NOTICE_MARKER, type GithubComment } from "./github"
+import { reconcile, type Reconciliation } from "./reconcile"
+import type { MessageLink } from "./store/store-interface"
+
+const THREAD_ID = "100"
+const BOT_LOGIN = "sync-bot"
+
+// the login is fetched by `loadGithub`, the origin markers only count in the comments of the bot
+spyOn(github, "getGithubLogin").mockReturnValue(BOT_LOGIN)
+
+/**
+ * @param seconds the time of the item, in seconds after the start of the conversation
+ */
+function at(seconds: number): Date {
+	return new Date(Date.UTC(2025, 0, 1, 12, 0, seconds))
+}
+
+function message(id: string, seconds: number, content: string, overrides: Partial<ThreadMessage> = {}): ThreadMessage {
+	return {
+		id,
+		message: content,
+		user: "alice",
+		userId: "1",
+		isAuthor: false,
+		createdAt: at(seconds),
+		attachments: [],
+		embeds: [],
+		stickers: [],
+		mentions: { guildId: "10", users: {}, channels: {}, roles: {}, logins: {} },
+		reactions: [],
+		...overrides,
+	}
+}
+
+/**
+ * a message mirrored from GitHub by the bot
+ */
+function mirror(id: string, seconds: number, content: string): ThreadMessage {
+	return message(id, seconds, content, { user: "Sync", userId: "2", isAuthor: true })
+}
+
+function comment(id: string, databaseId: number, seconds: number, body: string, login = "octocat"): GithubComment {
+	return {
+		id,
+		databaseId,
+		url: `https://github.com/tcgdex/sdk/discussions/1#discussioncomment-${databaseId}`,
+		body,
+		createdAt: at(seconds).toISOString(),
+		author: { login, avatarUrl: `https://github.com/${login}.png` },
+	}
+}
+
+function link(messageId: string, commentId: string, origin: MessageLink["origin"], overrides: Partial<MessageLink> = {}): MessageLink {
+	return { messageId, commentId, threadId: THREAD_ID, origin, createdAt: at(0).toISOString(), ...overrides }
+}
+
+function githubHeader(login: string, databaseId?: number): string {
+	const anchor = databaseId ? `#discussioncomment-${databaseId}` : ""
+	return `💬 **${login}** on [GitHub](<https://github.com/tcgdex/sdk/discussions/1${anchor}>) wrote:`
+}
+
+interface Fixture {
+	messages: Array<ThreadMessage>
+	comments: Array<GithubComment>
+	links?: Array<MessageLink>
+	/**
+	 * IDs of the missing messages and comments, in the order they are pushed
+	 */
+	missing: Array<string>
+	recovered?: Reconciliation["recovered"]
+}
+
+/**
+ * name => conversation and what is missing or recovered in it
+ */
+const RECONCILE: Record<string, Fixture> = {
+	"both sides gaining items": {
+		messages: [message("201", 1, "first"), message("202", 4, "on Discord")],
+		comments: [comment("c1", 11, 2, "first\n\n<!-- Discord:message:201 -->", BOT_LOGIN), comment("c2", 12, 3, "on GitHub")],
+		links: [link("201", "c1", "discord")],
+		missing: ["c2", "202"],
+	},
+	"several items on each side": {
+		messages: [message("201", 1, "a"), message("202", 3, "c"), message("203", 5, "e")],
+		comments: [comment("c1", 11, 2, "b"), comment("c2", 12, 4, "d")],
+		missing: ["201", "c1", "202", "c2", "203"],
+	},
+	"items deleted on Discord": {
+		messages: [],
+		comments: [comment("c1", 11, 1, "deleted on Discord"), comment("c2", 12, 2, "tombstone", BOT_LOGIN)],
+		links: [link("201", "c1", "github", { deletedOn: "discord" }), link("202", "c2", "discord", { deletedOn: "discord" })],
+		missing: [],
+	},
+	"items deleted on GitHub": {
+		messages: [message("201", 1, "deleted on GitHub"), mirror("202", 2, "tombstone")],
+		comments: [],
+		links: [link("201", "c1", "discord", { deletedOn: "github" }), link("202", "c2", "github", { deletedOn: "github" })],
+		missing: [],
+	},
+	"origin markers": {
+		messages: [message("201", 1, "hello"), message("202", 2, "legacy")],
+		comments: [
+			comment("c1", 11, 1, "💬 **alice** on [Discord](https://discord.com/channels/10/100/201) wrote:\n\nhello\n\n<!-- Discord:message:201 -->", BOT_LOGIN),
+			comment("c2", 12, 2, "💬 **alice** on [Discord](https://discord.com/channels/10/100/202) wrote:\n\nlegacy", BOT_LOGIN),
+		],
+		missing: [],
+		recovered: [
+			{ messageId: "201", commentId: "c1", threadId: THREAD_ID, origin: "discord", chunkIds: [] },
+			// comments mirrored before the marker existed only have the attribution header
+			{ messageId: "202", commentId: "c2", threadId: THREAD_ID, origin: "discord", chunkIds: [] },
+		],
+	},
+	"origin markers written by users": {
+		messages: [message("201", 1, "hello")],
+		comments: [
+			comment("c1", 11, 2, "quoting <!-- Discord:message:201 -->", "mallory"),
+			comment("c2", 12, 3, "💬 **alice** on [Discord](https://discord.com/channels/10/100/201) wrote:\n\nfake", "mallory"),
+		],
+		missing: ["201", "c1", "c2"],
+	},
+	"anchors": {
+		messages: [mirror("201", 2, `${githubHeader("octocat", 11)}\n\nhello`)],
+		comments: [comment("c1", 11, 1, "hello")],
+		missing: [],
+		recovered: [{ messageId: "201", commentId: "c1", threadId: THREAD_ID, origin: "github", chunkIds: [] }],
+	},
+	"webhook embeds": {
+		messages: [message("201", 2, "hello", {
+			user: "octocat",
+			isAuthor: true,
+			embeds: [{ title: "View on GitHub", description: null, url: "https://github.com/tcgdex/sdk/discussions/1#discussioncomment-11" }],
+		})],
+		comments: [comment("c1", 11, 1, "hello")],
+		missing: [],
+		recovered: [{ messageId: "201", commentId: "c1", threadId: THREAD_ID, origin: "github", chunkIds: [] }],
+	},
+	"split comments": {
+		messages: [
+			mirror("201", 10, `${githubHeader("octocat", 11)}\n\npart 1`),
+			mirror("202", 11, "part 2"),
+			mirror("203", 15, "part 3"),
+			// sent too long after the previous part
+			mirror("204", 21, "notice"),
+		],
+		comments: [comment("c1", 11, 1, "long")],
+		missing: [],
+		recovered: [{ messageId: "201", commentId: "c1", threadId: THREAD_ID, origin: "github", chunkIds: ["202", "203"] }],
+	},
+	"split comments interrupted": {
+		messages: [
+			mirror("201", 10, `${githubHeader("octocat", 11)}\n\npart 1`),
+			message("202", 11, "someone answering"),
+			mirror("203", 12, "not a part"),
+		],
+		comments: [comment("c1", 11, 1, "long")],
+		missing: ["202"],
+		recovered: [{ messageId: "201", commentId: "c1", threadId: THREAD_ID, origin: "github", chunkIds: [] }],
+	},
+	"legacy headers": {
+		messages: [
+			mirror("201", 2, `${githubHeader("octocat")}\n\nfirst`),
+			mirror("202", 4, `${githubHeader("octocat")}\n\nsecond`),
+			mirror("203", 6, `${githubHeader("octocat")}\n\nsent before its comment`),
+		],
+		comments: [comment("c1", 11, 1, "first"), comment("c2", 12, 3, "second"), comment("c3", 13, 5, "other", "hubot"), comment("c4", 14, 7, "third")],
+		missing: ["c3", "c4"],
+		recovered: [
+			{ messageId: "201", commentId: "c1", threadId: THREAD_ID, origin: "github", chunkIds: [] },
+			{ messageId: "202", commentId: "c2", threadId: THREAD_ID, origin: "github", chunkIds: [] },
+		],
+	},
+	"notices and link codes": {
+		messages: [],
+		comments: [comment("c1", 11, 1, `The thread was closed on Discord\n\n${NOTICE_MARKER}`, BOT_LOGIN), comment("c2", 12, 2, "discord-link:ABCD1234")],
+		missing: [],
+	},
+}
+
+describe("reconcile", () => {
+	for (const [name, fixture] of Object.entries(RECONCILE)) {
+		test(name, () => {
+			const result = reconcile(THREAD_ID, fixture.messages, fixture.comments, fixture.links ?? [])
+			expect(result.missing.map((it) => it.to === "github" ? it.message.id : it.comment.id)).toEqual(fixture.missing)
+			expect(result.recovered).toEqual(fixture.recovered ?? [])
+		})
+	}
+})
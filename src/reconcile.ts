@@ -0,0 +1,150 @@
+import type { ThreadMessage } from "./discord"
+import { NOTICE_MARKER, type GithubComment } from "./github"
+import type { MessageLink } from "./store/store-interface"
+import { LINK_CODE } from "./identity"
+import { getOriginMessageId, isMirrored } from "./origin"
+
+export type MissingItem = {
+	to: "github"
+	createdAt: Date
+	message: ThreadMessage
+} | {
+	to: "discord"
+	createdAt: Date
+	comment: GithubComment
+}
+
+export interface Reconciliation {
+	/**
+	 * items missing on the other side, ordered chronologically
+	 */
+	missing: Array<MissingItem>
+	/**
+	 * links that were not in the store but were found back through the source markers
+	 */
+	recovered: Array<Omit<MessageLink, "createdAt">>
+}
+
+// 💬 **user** on [GitHub](<https://github.com/owner/repo/discussions/1#discussioncomment-1>) wrote:
+const GITHUB_MARKER = /^💬 \*\*(.+?)\*\* on \[GitHub\]\(<https:\/\/github\.com\/[^>]+?(?:#discussioncomment-(\d+))?>\) wrote:/
+
+/**
+ * @returns the author and the comment database ID (when known) of a message mirrored from GitHub
+ */
+function findGithubSource(message: ThreadMessage): { login: string, databaseId?: string } | undefined {
+	const marker = GITHUB_MARKER.exec(message.message)
+	if (marker) {
+		return { login: marker[1]!, databaseId: marker[2] }
+	}
+	// messages posted through the webhook have the name of their author and link to GitHub in an embed
+	const url = message.embeds.find((it) => it.url?.startsWith("https://github.com/"))?.url
+	return url ? { login: message.user, databaseId: /#discussioncomment-(\d+)$/.exec(url)?.[1] } : undefined
+}
+
+/**
+ * the parts of a split comment are sent in a row, a bot message sent later is not one of them
+ */
+const MAX_CHUNK_DELAY = 5000
+
+/**
+ * Compare the messages of a Discord thread with the comments of a GitHub discussion
+ * and compute what is missing on each side.
+ *
+ * Items are matched through the stored links first, then through the origin marker of the comments
+ * and the attribution header (or GitHub embed) of the messages.
+ * A comment split in several Discord messages counts as a single item.
+ * Items whose counterpart was deleted are never pushed again.
+ *
+ * @param threadId the Discord thread ID
+ * @param messages the messages of the Discord thread (without the starter message)
+ * @param comments the comments of the GitHub discussion
+ * @param links the stored message links of the thread
+ */
+export function reconcile(
+	threadId: string,
+	messages: Array<ThreadMessage>,
+	comments: Array<GithubComment>,
+	links: Array<MessageLink>
+): Reconciliation {
+	const linkedMessages = new Set(links.flatMap((it) => [it.messageId, ...it.chunkIds ?? []]))
+	const linkedComments = new Set(links.map((it) => it.commentId))
+	const recovered: Reconciliation["recovered"] = []
+
+	const link = (messageId: string, commentId: string, origin: MessageLink["origin"]) => {
+		linkedMessages.add(messageId)
+		linkedComments.add(commentId)
+		const recoveredLink = { messageId, commentId, threadId, origin, chunkIds: [] as Array<string> }
+		recovered.push(recoveredLink)
+		return recoveredLink
+	}
+
+	// GitHub comments mirrored from Discord contains the message ID
+	for (const comment of comments) {
+		if (linkedComments.has(comment.id)) {
+			continue
+		}
+		const messageId = getOriginMessageId(comment)
+		if (messageId && !linkedMessages.has(messageId)) {
+			link(messageId, comment.id, "discord")
+		}
+	}
+
+	// Discord messages mirrored from GitHub contains the comment anchor
+	const unmarked: Array<{ message: ThreadMessage, login: string }> = []
+	// the recovered split comment the next messages may be part of
+	let group: { chunkIds: Array<string>, lastAt: Date } | undefined
+	for (const message of messages) {
+		if (linkedMessages.has(message.id) || !isMirrored(message)) {
+			group = undefined
+			continue
+		}
+		const source = findGithubSource(message)
+		if (!source) {
+			// only the first part of a split comment has the attribution header
+			if (group && message.createdAt.getTime() - group.lastAt.getTime() <= MAX_CHUNK_DELAY) {
+				group.chunkIds.push(message.id)
+				group.lastAt = message.createdAt
+				linkedMessages.add(message.id)
+			} else {
+				group = undefined
+			}
+			continue
+		}
+		group = undefined
+		const comment = source.databaseId ? comments.find((it) => it.databaseId.toString() === source.databaseId) : undefined
+		if (comment && !linkedComments.has(comment.id)) {
+			group = { chunkIds: link(message.id, comment.id, "github").chunkIds, lastAt: message.createdAt }
+		} else if (!source.databaseId) {
+			unmarked.push({ message, login: source.login })
+		}
+	}
+
+	// messages mirrored before the anchor existed are matched by author, in order
+	for (const { message, login } of unmarked) {
+		const comment = comments.find((it) =>
+			!linkedComments.has(it.id) &&
+			it.author.login === login &&
+			new Date(it.createdAt) <= message.createdAt
+		)
+		if (comment) {
+			link(message.id, comment.id, "github")
+		}
+	}
+
+	const missing: Array<MissingItem> = [
+		...messages
+			// messages sent by the bot are either mirrors or notices, never originals
+			.filter((it) => !linkedMessages.has(it.id) && !isMirrored(it))
+			.map((message) => ({ to: "github" as const, createdAt: message.createdAt, message })),
+		...comments
+			// notices are explaining changes made from Discord and link codes are linking accounts,
+			// they are not part of the conversation
+			.filter((it) => !linkedComments.has(it.id) && !isMirrored(it) && !it.body.includes(NOTICE_MARKER) && !LINK_CODE.test(it.body))
+			.map((comment) => ({ to: "discord" as const, createdAt: new Date(comment.createdAt), comment })),
+	]
+
+	return {
+		missing: missing.toSorted((a, b) => a.createdAt.getTime() - b.createdAt.getTime()),
+		recovered,
+	}
+}
@@ -0,0 +1,186 @@
+import crypto from 'node:crypto'
+import fs from 'node:fs'
+import path from 'node:path'
+import type StoreInterface from './store-interface'
+import type { IdentityLink, Job, MessageLink, Platform, ThreadLink } from './store-interface'
+
+interface StoreContent {
+	threads: Array<ThreadLink>
+	messages: Array<MessageLink>
+	identities: Array<IdentityLink>
+	ignoredThreads: Array<string>
+	optedOutUsers: Array<string>
+	jobs: Array<Job>
+}
+
+/**
+ * Store keeping everything in a single JSON file, rewritten on each change
+ */
+export default class JsonStore implements StoreInterface {
+	private readonly file: string
+	private readonly content: StoreContent
+
+	public constructor(
+		file: string
+	) {
+		this.file = file
+		this.content = this.load()
+	}
+
+	public linkThread(link: Omit<ThreadLink, 'createdAt'>): void {
+		// a thread or a discussion can only be linked once
+		this.content.threads = this.content.threads
+			.filter((it) => it.threadId !== link.threadId && it.discussionId !== link.discussionId)
+		this.content.threads.push({ ...link, createdAt: new Date().toISOString() })
+		this.save()
+	}
+
+	public getThreadLinkByThread(threadId: string): ThreadLink | undefined {
+		return this.content.threads.find((it) => it.threadId === threadId)
+	}
+
+	public getThreadLinkByDiscussion(discussionId: string): ThreadLink | undefined {
+		return this.content.threads.find((it) => it.discussionId === discussionId)
+	}
+
+	public markThreadDeleted(threadId: string, on: Platform): void {
+		const link = this.getThreadLinkByThread(threadId)
+		if (!link || link.deletedOn) {
+			return
+		}
+		link.deletedOn = on
+		this.save()
+	}
+
+	public listThreadLinks(): Array<ThreadLink> {
+		return [...this.content.threads]
+	}
+
+	public unlinkThread(threadId: string): void {
+		this.content.threads = this.content.threads.filter((it) => it.threadId !== threadId)
+		this.content.messages = this.content.messages.filter((it) => it.threadId !== threadId)
+		this.save()
+	}
+
+	public setThreadIgnored(threadId: string, ignored: boolean): void {
+		this.content.ignoredThreads = this.content.ignoredThreads.filter((it) => it !== threadId)
+		if (ignored) {
+			this.content.ignoredThreads.push(threadId)
+		}
+		this.save()
+	}
+
+	public isThreadIgnored(threadId: string): boolean {
+		return this.content.ignoredThreads.includes(threadId)
+	}
+
+	public linkMessage(link: Omit<MessageLink, 'createdAt'>): void {
+		this.content.messages = this.content.messages
+			.filter((it) => it.messageId !== link.messageId && it.commentId !== link.commentId)
+		this.content.messages.push({ ...link, createdAt: new Date().toISOString() })
+		this.save()
+	}
+
+	public getMessageLinkByMessage(messageId: string): MessageLink | undefined {
+		return this.content.messages.find((it) => it.messageId === messageId || it.chunkIds?.includes(messageId))
+	}
+
+	public getMessageLinkByComment(commentId: string): MessageLink | undefined {
+		return this.content.messages.find((it) => it.commentId === commentId)
+	}
+
+	public markMessageDeleted(messageId: string, on: Platform): void {
+		const link = this.getMessageLinkByMessage(messageId)
+		if (!link || link.deletedOn) {
+			return
+		}
+		link.deletedOn = on
+		this.save()
+	}
+
+	public listMessageLinks(threadId: string): Array<MessageLink> {
+		return this.content.messages.filter((it) => it.threadId === threadId)
+	}
+
+	public linkIdentity(link: Omit<IdentityLink, 'createdAt'>): void {
+		// GitHub logins are case insensitive
+		this.content.identities = this.content.identities
+			.filter((it) => it.discordId !== link.discordId && it.githubLogin.toLowerCase() !== link.githubLogin.toLowerCase())
+		this.content.identities.push({ ...link, createdAt: new Date().toISOString() })
+		this.save()
+	}
+
+	public getIdentityByDiscord(discordId: string): IdentityLink | undefined {
+		return this.content.identities.find((it) => it.discordId === discordId)
+	}
+
+	public getIdentityByGithub(githubLogin: string): IdentityLink | undefined {
+		return this.content.identities.find((it) => it.githubLogin.toLowerCase() === githubLogin.toLowerCase())
+	}
+
+	public unlinkIdentity(discordId: string): void {
+		this.content.identities = this.content.identities.filter((it) => it.discordId !== discordId)
+		this.save()
+	}
+
+	public listIdentities(): Array<IdentityLink> {
+		return [...this.content.identities]
+	}
+
+	public setUserOptedOut(discordId: string, optedOut: boolean): void {
+		this.content.optedOutUsers = this.content.optedOutUsers.filter((it) => it !== discordId)
+		if (optedOut) {
+			this.content.optedOutUsers.push(discordId)
+		}
+		this.save()
+	}
+
+	public isUserOptedOut(discordId: string): boolean {
+		return this.content.optedOutUsers.includes(discordId)
+	}
+
+	public addJob(job: Pick<Job, 'type' | 'key' | 'payload'>): Job {
+		const now = new Date().toISOString()
+		const added: Job = { ...job, id: crypto.randomUUID(), attempts: 0, runAt: now, createdAt: now }
+		this.content.jobs.push(added)
+		this.save()
+		return added
+	}
+
+	public updateJob(job: Job): void {
+		this.content.jobs = this.content.jobs.map((it) => it.id === job.id ? job : it)
+		this.save()
+	}
+
+	public removeJob(id: string): void {
+		this.content.jobs = this.content.jobs.filter((it) => it.id !== id)
+		this.save()
+	}
+
+	public listJobs(): Array<Job> {
+		return [...this.content.jobs]
+	}
+
+	private load(): StoreContent {
+		if (!fs.existsSync(this.file)) {
+			return { threads: [], messages: [], identities: [], ignoredThreads: [], optedOutUsers: [], jobs: [] }
+		}
+		const content = JSON.parse(fs.readFileSync(this.file, 'utf-8')) as Partial<StoreContent>
+		return {
+			threads: content.threads ?? [],
+			messages: content.messages ?? [],
+			identities: content.identities ?? [],
+			ignoredThreads: content.ignoredThreads ?? [],
+			optedOutUsers: content.optedOutUsers ?? [],
+			jobs: content.jobs ?? [],
+		}
+	}
+
+	private save() {
+		fs.mkdirSync(path.dirname(this.file), { recursive: true })
+		// write to a temporary file first so a crash never leaves a half written store
+		const tmp = `${this.file}.tmp`
+		fs.writeFileSync(tmp, JSON.stringify(this.content, undefined, '\t'))
+		fs.renameSync(tmp, this.file)
+	}
+}
@@ -0,0 +1,215 @@
+export type Platform = 'discord' | 'github'
+
+/**
+ * Link between a Discord forum thread and a GitHub discussion
+ */
+export interface ThreadLink {
+	threadId: string
+	discussionId: string
+	discussionNumber: number
+	/**
+	 * the messages following the starter message when the discussion body was split
+	 */
+	chunkIds?: Array<string>
+	/**
+	 * the platform the conversation was started on
+	 */
+	origin: Platform
+	/**
+	 * the platform the conversation was deleted on, if any
+	 */
+	deletedOn?: Platform
+	createdAt: string
+}
+
+/**
+ * Link between a Discord message and a GitHub discussion comment
+ */
+export interface MessageLink {
+	/**
+	 * the first message when the comment was split in several messages
+	 */
+	messageId: string
+	commentId: string
+	threadId: string
+	/**
+	 * the other messages the comment was split into, in order
+	 */
+	chunkIds?: Array<string>
+	/**
+	 * the platform the message was written on
+	 */
+	origin: Platform
+	/**
+	 * the platform the message was deleted on, if any
+	 */
+	deletedOn?: Platform
+	createdAt: string
+}
+
+/**
+ * Link between a Discord user and the GitHub account they proved to own
+ */
+export interface IdentityLink {
+	discordId: string
+	githubLogin: string
+	createdAt: string
+}
+
+/**
+ * A write waiting to be done on one of the platforms, it is kept until it succeeds
+ */
+export interface Job {
+	id: string
+	/**
+	 * the name of the handler running the job
+	 */
+	type: string
+	/**
+	 * the conversation the job belongs to, the jobs of a conversation are run one at a time and in order
+	 */
+	key: string
+	payload: Record<string, any>
+	/**
+	 * the number of failed attempts
+	 */
+	attempts: number
+	/**
+	 * when the job can be run, delayed after each failure
+	 */
+	runAt: string
+	/**
+	 * the error of the last failed attempt
+	 */
+	lastError?: string
+	/**
+	 * when the job was given up after too many failures, it is kept until retried
+	 */
+	deadAt?: string
+	createdAt: string
+}
+
+/**
+ * Describes a persistent store keeping track of what was mirrored where.
+ */
+export default interface StoreInterface {
+	/**
+	 * Record that a Discord thread and a GitHub discussion are the same conversation.
+	 */
+	linkThread(link: Omit<ThreadLink, 'createdAt'>): void
+
+	/**
+	 * Find the link of a Discord thread
+	 */
+	getThreadLinkByThread(threadId: string): ThreadLink | undefined
+
+	/**
+	 * Find the link of a GitHub discussion
+	 */
+	getThreadLinkByDiscussion(discussionId: string): ThreadLink | undefined
+
+	/**
+	 * Record that one side of a linked conversation was deleted
+	 */
+	markThreadDeleted(threadId: string, on: Platform): void
+
+	/**
+	 * list every known thread link
+	 */
+	listThreadLinks(): Array<ThreadLink>
+
+	/**
+	 * Forget the link of a Discord thread and of its messages
+	 */
+	unlinkThread(threadId: string): void
+
+	/**
+	 * Stop (or resume) mirroring a Discord thread and its discussion
+	 */
+	setThreadIgnored(threadId: string, ignored: boolean): void
+
+	/**
+	 * @returns whether the mirroring of the thread was stopped
+	 */
+	isThreadIgnored(threadId: string): boolean
+
+	/**
+	 * Record that a Discord message and a GitHub comment are the same message.
+	 */
+	linkMessage(link: Omit<MessageLink, 'createdAt'>): void
+
+	/**
+	 * Find the link of a Discord message, or of any part of a split message
+	 */
+	getMessageLinkByMessage(messageId: string): MessageLink | undefined
+
+	/**
+	 * Find the link of a GitHub comment
+	 */
+	getMessageLinkByComment(commentId: string): MessageLink | undefined
+
+	/**
+	 * Record that one side of a linked message was deleted
+	 */
+	markMessageDeleted(messageId: string, on: Platform): void
+
+	/**
+	 * list every message link of a Discord thread
+	 */
+	listMessageLinks(threadId: string): Array<MessageLink>
+
+	/**
+	 * Record that a Discord user owns a GitHub account, replacing any previous link of both
+	 */
+	linkIdentity(link: Omit<IdentityLink, 'createdAt'>): void
+
+	/**
+	 * Find the GitHub account of a Discord user
+	 */
+	getIdentityByDiscord(discordId: string): IdentityLink | undefined
+
+	/**
+	 * Find the Discord user of a GitHub account
+	 */
+	getIdentityByGithub(githubLogin: string): IdentityLink | undefined
+
+	/**
+	 * Forget the GitHub account of a Discord user
+	 */
+	unlinkIdentity(discordId: string): void
+
+	/**
+	 * list every identity link
+	 */
+	listIdentities(): Array<IdentityLink>
+
+	/**
+	 * Stop (or resume) mirroring the messages of a Discord user on GitHub
+	 */
+	setUserOptedOut(discordId: string, optedOut: boolean): void
+
+	/**
+	 * @returns whether the Discord user asked for their messages not to be mirrored on GitHub
+	 */
+	isUserOptedOut(discordId: string): boolean
+
+	/**
+	 * Add a job at the end of the queue, it can be run right away
+	 */
+	addJob(job: Pick<Job, 'type' | 'key' | 'payload'>): Job
+
+	/**
+	 * Save the state of a job after a failed attempt
+	 */
+	updateJob(job: Job): void
+
+	/**
+	 * Forget a job once it is done
+	 */
+	removeJob(id: string): void
+
+	/**
+	 * list every job, including the dead ones, in the order they were added
+	 */
+	listJobs(): Array<Job>
+}
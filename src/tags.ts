@@ -0,0 +1,100 @@
+import config from "./config/config"
+import type { GithubDiscussion, GithubLabel } from "./github"
+
+/**
+ * Discord allows at most 5 tags on a forum post
+ */
+const MAX_TAGS = 5
+
+export interface ForumTag {
+	id: string
+	name: string
+}
+
+function sameName(a: string, b: string) {
+	return a.toLowerCase() === b.toLowerCase()
+}
+
+/**
+ * @returns the name of the Discord tag mirroring a GitHub label
+ */
+export function labelToTag(label: string): string {
+	return config.tags.labels[label] ?? label
+}
+
+/**
+ * @returns the name of the GitHub label mirrored by a Discord tag
+ */
+export function tagToLabel(tag: string): string {
+	return Object.entries(config.tags.labels).find(([, it]) => sameName(it, tag))?.[0] ?? tag
+}
+
+/**
+ * @returns whether the tag reflects the answered state of the discussion, those tags are managed by GitHub only
+ */
+export function isStatusTag(tag: string): boolean {
+	return [config.tags.answered, config.tags.unanswered].some((it) => it && sameName(it, tag))
+}
+
+/**
+ * Compute the tags of a thread from the labels and answered state of its discussion
+ *
+ * Tags not mirroring a label of the repository are kept as is.
+ *
+ * @param discussion the discussion, with its labels
+ * @param availableTags the tags of the forum
+ * @param currentTagIds the tags currently applied on the thread
+ * @param repositoryLabels the labels of the repository
+ * @returns the IDs of the tags to apply
+ */
+export function computeThreadTags(
+	discussion: GithubDiscussion,
+	availableTags: Array<ForumTag>,
+	currentTagIds: Array<string>,
+	repositoryLabels: Array<GithubLabel>
+): Array<string> {
+	const wanted = (discussion.labels?.nodes ?? []).map((it) => labelToTag(it.name))
+	const status = discussion.isAnswered ? config.tags.answered : config.tags.unanswered
+	if (discussion.category.isAnswerable && status) {
+		wanted.push(status)
+	}
+
+	const isManaged = (tag: ForumTag) => isStatusTag(tag.name) ||
+		repositoryLabels.some((it) => sameName(labelToTag(it.name), tag.name))
+	const kept = availableTags
+		.filter((tag) => currentTagIds.includes(tag.id) && !isManaged(tag))
+	const added = availableTags
+		.filter((tag) => wanted.some((it) => sameName(it, tag.name)))
+
+	return [...new Set([...added, ...kept].map((it) => it.id))].slice(0, MAX_TAGS)
+}
+
+/**
+ * Compute the labels to add/remove on a discussion after the tags of its thread changed
+ *
+ * @param oldTagIds the tags applied on the thread before the change
+ * @param newTagIds the tags applied on the thread after the change
+ * @param availableTags the tags of the forum
+ * @param discussion the discussion, with its labels
+ * @param repositoryLabels the labels of the repository
+ */
+export function computeLabelChanges(
+	oldTagIds: Array<string>,
+	newTagIds: Array<string>,
+	availableTags: Array<ForumTag>,
+	discussion: GithubDiscussion,
+	repositoryLabels: Array<GithubLabel>
+): { add: Array<GithubLabel>, remove: Array<GithubLabel> } {
+	const current = discussion.labels?.nodes ?? []
+	const toLabels = (ids: Array<string>) => availableTags
+		.filter((tag) => ids.includes(tag.id) && !isStatusTag(tag.name))
+		.map((tag) => repositoryLabels.find((it) => sameName(it.name, tagToLabel(tag.name))))
+		.filter((it): it is GithubLabel => !!it)
+
+	return {
+		add: toLabels(newTagIds.filter((it) => !oldTagIds.includes(it)))
+			.filter((label) => !current.some((it) => it.id === label.id)),
+		remove: toLabels(oldTagIds.filter((it) => !newTagIds.includes(it)))
+			.filter((label) => current.some((it) => it.id === label.id)),
+	}
+}
@@ -0,0 +1,16 @@
+import os from "node:os"
+import path from "node:path"
+
+/**
+ * Configuration of the tests, loaded before them by `bunfig.toml` as the modules read it when imported.
+ * Nothing is sent with the tokens, and the store is only read.
+ */
+Object.assign(process.env, {
+	GITHUB_TOKEN: "test-github-token",
+	GITHUB_WEBHOOK_SECRET: "test-webhook-secret",
+	DISCORD_TOKEN: "test-discord-token",
+	GITHUB_OWNER: "tcgdex",
+	GITHUB_REPO: "sdk",
+	FORUM_CHANNEL_ID: "100",
+	STORE_PATH: path.join(os.tmpdir(), `github-discord-sync-test-${process.pid}.json`),
+})
@@ -0,0 +1,67 @@
+import crypto from "node:crypto"
+import type express from "express"
+import logger from "./config/logger"
+
+/**
+ * number of delivery IDs remembered to detect redeliveries
+ */
+const MAX_DELIVERIES = 1000
+
+/**
+ * Check the `X-Hub-Signature-256` header against the raw payload
+ *
+ * @param secret the secret configured on the GitHub webhook
+ * @param payload the raw request body
+ * @param signature the content of the `X-Hub-Signature-256` header
+ */
+export function verifySignature(secret: string, payload: Buffer, signature: string | undefined): boolean {
+	if (!signature?.startsWith("sha256=")) {
+		return false
+	}
+	const expected = Buffer.from(`sha256=${crypto.createHmac("sha256", secret).update(payload).digest("hex")}`)
+	const received = Buffer.from(signature)
+	return expected.length === received.length && crypto.timingSafeEqual(expected, received)
+}
+
+/**
+ * Middleware authenticating GitHub webhooks
+ *
+ * It expects the body to be parsed as raw (`bodyParser.raw()`), and replaces it by the parsed JSON
+ * once the signature is verified.
+ * Repeated deliveries are acknowledged without reaching the next handler.
+ *
+ * @param secret the secret configured on the GitHub webhook
+ */
+export function githubWebhook(secret: string): express.RequestHandler {
+	const deliveries = new Set<string>()
+
+	return (req, res, next) => {
+		if (!Buffer.isBuffer(req.body) || !verifySignature(secret, req.body, req.header("x-hub-signature-256"))) {
+			logger.warning(`[Webhook] Rejected request with an invalid signature from ${req.ip}`)
+			res.sendStatus(401)
+			return
+		}
+
+		const delivery = req.header("x-github-delivery")
+		if (delivery) {
+			if (deliveries.has(delivery)) {
+				logger.info(`[Webhook] Ignoring repeated delivery ${delivery}`)
+				res.sendStatus(200)
+				return
+			}
+			deliveries.add(delivery)
+			// Sets keep the insertion order, the first item is the oldest one
+			if (deliveries.size > MAX_DELIVERIES) {
+				deliveries.delete(deliveries.values().next().value!)
+			}
+		}
+
+		try {
+			req.body = JSON.parse(req.body.toString("utf-8"))
+		} catch {
+			res.sendStatus(400)
+			return
+		}
+		next()
+	}
+}